@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { AlertsResponse, ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * List recent alerts, newest first. `?serviceId=` narrows to one service.
+ */
+export async function GET(
+    request: NextRequest
+): Promise<NextResponse<ApiResponse<AlertsResponse>>> {
+    try {
+        const manager = getServiceManager();
+        const params = request.nextUrl.searchParams;
+        const serviceId = params.get('serviceId') ?? undefined;
+
+        if (serviceId && !manager.getService(serviceId)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${serviceId}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const limitParam = params.get('limit');
+        const limit = limitParam ? Number(limitParam) : undefined;
+
+        if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+            return NextResponse.json(
+                { success: false, error: 'limit must be a positive integer' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { alerts: manager.getAlerts(serviceId, limit) },
+        });
+    } catch (error) {
+        console.error('[API] Failed to get alerts:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Clear alerts and their counters. `?serviceId=` clears one service only.
+ */
+export async function DELETE(
+    request: NextRequest
+): Promise<NextResponse<ApiResponse<AlertsResponse>>> {
+    try {
+        const manager = getServiceManager();
+        const serviceId = request.nextUrl.searchParams.get('serviceId') ?? undefined;
+
+        manager.clearAlerts(serviceId);
+
+        return NextResponse.json({
+            success: true,
+            data: { alerts: manager.getAlerts() },
+        });
+    } catch (error) {
+        console.error('[API] Failed to clear alerts:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
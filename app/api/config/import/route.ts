@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as fs from 'fs';
+import { getServiceManager } from '@/lib/service-manager';
+import { importServicesFile } from '@/lib/importers';
+import type { ApiResponse, ImportServicesResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Convert a Procfile or compose file into service definitions and add them
+ * to the config file. With `dryRun` the conversion is only returned.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<ImportServicesResponse>>> {
+    try {
+        const body = await request.json();
+
+        if (typeof body?.path !== 'string' || !body.path) {
+            return NextResponse.json(
+                { success: false, error: "Request body must contain a string 'path' field" },
+                { status: 400 }
+            );
+        }
+        if (!fs.existsSync(body.path)) {
+            return NextResponse.json(
+                { success: false, error: `File '${body.path}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const { format, services, warnings } = importServicesFile(body.path);
+        const { imported, skipped } = body.dryRun
+            ? { imported: [], skipped: [] }
+            : getServiceManager().importServices(services);
+
+        return NextResponse.json({
+            success: true,
+            data: { format, services, warnings, imported, skipped },
+        });
+    } catch (error) {
+        console.error('[API] Failed to import services:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 400 }
+        );
+    }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, ConfigValidationResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Check the config file and list every problem with its path
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<ConfigValidationResponse>>> {
+    try {
+        const { file, issues } = getServiceManager().validateConfigFile();
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                file,
+                valid: !issues.some(issue => issue.severity === 'error'),
+                issues,
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to validate config:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ConfigChangeEvent, ProfileSwitchResponse, ServiceNotification } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Hub-wide SSE stream of notifications routed to `browser` sinks, used by
+ * the dashboard to show desktop notifications, of changes to services.json,
+ * and of profile switches
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+    const manager = getServiceManager();
+
+    const stream = new ReadableStream({
+        start(controller) {
+            const encoder = new TextEncoder();
+
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'connected' })}\n\n`));
+
+            const notificationHandler = (notification: ServiceNotification) => {
+                try {
+                    controller.enqueue(
+                        encoder.encode(`data: ${JSON.stringify({ ...notification, type: 'notification', event: notification.type })}\n\n`)
+                    );
+                } catch {
+                    // Stream closed
+                }
+            };
+            manager.on('notification', notificationHandler);
+
+            const configHandler = (change: ConfigChangeEvent) => {
+                try {
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ ...change, type: 'config' })}\n\n`));
+                } catch {
+                    // Stream closed
+                }
+            };
+            manager.on('config', configHandler);
+
+            const profileHandler = (result: ProfileSwitchResponse) => {
+                try {
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ ...result, type: 'profile' })}\n\n`));
+                } catch {
+                    // Stream closed
+                }
+            };
+            manager.on('profile', profileHandler);
+
+            // Keep-alive ping every 30 seconds
+            const pingInterval = setInterval(() => {
+                try {
+                    controller.enqueue(encoder.encode(`: ping\n\n`));
+                } catch {
+                    clearInterval(pingInterval);
+                }
+            }, 30000);
+
+            // Cleanup on abort
+            request.signal.addEventListener('abort', () => {
+                manager.off('notification', notificationHandler);
+                manager.off('config', configHandler);
+                manager.off('profile', profileHandler);
+                clearInterval(pingInterval);
+                controller.close();
+            });
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no', // Disable nginx buffering
+        },
+    });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, GroupActionResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ name: string }>;
+};
+
+/**
+ * Restart every service in a group, stopping them all before starting any
+ */
+export async function POST(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<GroupActionResponse>>> {
+    try {
+        const { name } = await context.params;
+        const manager = getServiceManager();
+        const members = manager.getGroupMembers(name);
+
+        if (members.length === 0) {
+            return NextResponse.json(
+                { success: false, error: `Group '${name}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const results = await manager.runServiceAction('restart', members);
+        const succeeded = results.filter(result => result.success).length;
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                group: name,
+                results,
+                message: `Restarted ${succeeded} of ${results.length} services in '${name}'`,
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to restart group:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, GroupActionResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ name: string }>;
+};
+
+/**
+ * Stop every service in a group at once, with the outcome for each
+ */
+export async function POST(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<GroupActionResponse>>> {
+    try {
+        const { name } = await context.params;
+        const manager = getServiceManager();
+        const members = manager.getGroupMembers(name);
+
+        if (members.length === 0) {
+            return NextResponse.json(
+                { success: false, error: `Group '${name}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const results = await manager.runServiceAction('stop', members);
+        const succeeded = results.filter(result => result.success).length;
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                group: name,
+                results,
+                message: `Stopped ${succeeded} of ${results.length} services in '${name}'`,
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to stop group:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
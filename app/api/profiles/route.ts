@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, ProfileListResponse, ProfileSwitchResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(): Promise<NextResponse<ApiResponse<ProfileListResponse>>> {
+    try {
+        const manager = getServiceManager();
+
+        return NextResponse.json({
+            success: true,
+            data: manager.getProfiles(),
+        });
+    } catch (error) {
+        console.error('[API] Failed to get profiles:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Switch profiles with `{ "active": "<name>" }`, or `{ "active": null }` to
+ * go back to managing services one by one
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse<ApiResponse<ProfileSwitchResponse>>> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const active = body?.active;
+
+        if (active !== null && typeof active !== 'string') {
+            return NextResponse.json(
+                { success: false, error: 'active must be a profile name or null' },
+                { status: 400 }
+            );
+        }
+
+        const manager = getServiceManager();
+        if (active !== null && !manager.getProfiles().profiles.some(profile => profile.name === active)) {
+            return NextResponse.json(
+                { success: false, error: `Profile '${active}' not found` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: await manager.switchProfile(active),
+        });
+    } catch (error) {
+        console.error('[API] Failed to switch profile:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
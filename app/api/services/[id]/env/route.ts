@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, ServiceEnvResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Get the resolved command, cwd and environment of a service, with the
+ * source of each variable
+ */
+export async function GET(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<ServiceEnvResponse>>> {
+    try {
+        const { id } = await context.params;
+        const env = getServiceManager().getServiceEnv(id);
+
+        if (!env) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: env });
+    } catch (error) {
+        console.error('[API] Failed to resolve service environment:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
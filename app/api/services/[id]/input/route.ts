@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Forward keyboard input from the dashboard terminal to a pty service
+ */
+export async function POST(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+    try {
+        const { id } = await context.params;
+        const body = await request.json();
+
+        if (typeof body?.data !== 'string') {
+            return NextResponse.json(
+                { success: false, error: "Request body must contain a string 'data' field" },
+                { status: 400 }
+            );
+        }
+
+        getServiceManager().writeInput(id, body.data);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[API] Failed to write service input:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 400 }
+        );
+    }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import { applyLogFilter, parseLogFilter, type LogFilter } from '@/lib/log-filter';
+import { LOG_EXPORT_FORMATS, renderLogExport, type LogExportFormat } from '@/lib/log-export';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Download the logs of a service as text, NDJSON or HTML. Accepts the same
+ * query as the logs route, plus `format` and `runId` for an earlier run.
+ */
+export async function GET(
+    request: NextRequest,
+    context: RouteContext
+): Promise<Response> {
+    try {
+        const { id } = await context.params;
+        const manager = getServiceManager();
+        const params = request.nextUrl.searchParams;
+
+        const service = manager.getService(id);
+        if (!service) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const format = (params.get('format') ?? 'text') as LogExportFormat;
+        if (!LOG_EXPORT_FORMATS.includes(format)) {
+            return NextResponse.json(
+                { success: false, error: `format must be one of ${LOG_EXPORT_FORMATS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        let filter: LogFilter;
+        try {
+            filter = parseLogFilter(params);
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Invalid log query' },
+                { status: 400 }
+            );
+        }
+
+        const runId = params.get('runId');
+        if (runId && (!/^[\w-]+$/.test(runId) || !manager.getRunsWithLogs(id).has(runId))) {
+            return NextResponse.json(
+                { success: false, error: `No logs stored for run '${runId}'` },
+                { status: 404 }
+            );
+        }
+
+        const entries = runId
+            ? manager.getRunLogs(id, runId, filter).entries
+            : applyLogFilter(manager.getLogs(id), filter);
+
+        const exportedAt = new Date().toISOString();
+        const { body, contentType, extension } = renderLogExport(
+            entries,
+            format,
+            `${service.config.name} logs (exported ${exportedAt})`
+        );
+        const fileName = `${id.replace(/[^\w.-]/g, '_')}-logs-${exportedAt.replace(/[:.]/g, '-')}.${extension}`;
+
+        return new Response(body, {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to export logs:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
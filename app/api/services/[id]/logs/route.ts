@@ -1,5 +1,7 @@
 import { NextRequest } from 'next/server';
 import { getServiceManager } from '@/lib/service-manager';
+import { applyLogFilter, filterLogEntry, parseLogFilter, type LogFilter } from '@/lib/log-filter';
+import type { LogEntry, ServiceAlert } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -8,6 +10,13 @@ type RouteContext = {
     params: Promise<{ id: string }>;
 };
 
+/**
+ * SSE event for a log entry, with its sequence number as the event id
+ */
+function formatLogEvent(entry: LogEntry): string {
+    return `id: ${entry.seq}\ndata: ${JSON.stringify({ type: 'log', ...entry })}\n\n`;
+}
+
 export async function GET(
     request: NextRequest,
     context: RouteContext
@@ -24,6 +33,24 @@ export async function GET(
         );
     }
 
+    // Optional tail/since/until/stream/level/grep query, applied to history and live entries
+    let filter: LogFilter;
+    try {
+        filter = parseLogFilter(request.nextUrl.searchParams);
+    } catch (error) {
+        return new Response(
+            JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid log query' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+
+    // A reconnecting EventSource sends the id of the last entry it received; clients
+    // that open a new EventSource pass it as ?lastEventId instead
+    const lastEventId = Number(
+        request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? NaN
+    );
+    const resuming = Number.isInteger(lastEventId);
+
     // Create a readable stream for SSE
     const stream = new ReadableStream({
         start(controller) {
@@ -34,20 +61,21 @@ export async function GET(
                 encoder.encode(`data: ${JSON.stringify({ type: 'connected', serviceId: id })}\n\n`)
             );
 
-            // Send existing logs (history)
-            const existingLogs = manager.getLogs(id);
+            // Send existing logs (history), or only what the client missed when resuming
+            const existingLogs = resuming
+                ? applyLogFilter(manager.getLogs(id).filter(entry => entry.seq > lastEventId), { ...filter, tail: undefined })
+                : applyLogFilter(manager.getLogs(id), filter);
             for (const entry of existingLogs) {
-                controller.enqueue(
-                    encoder.encode(`data: ${JSON.stringify({ type: 'log', ...entry })}\n\n`)
-                );
+                controller.enqueue(encoder.encode(formatLogEvent(entry)));
             }
 
             // Subscribe to new logs
-            const unsubscribe = manager.subscribeToLogs(id, (entry) => {
+            const unsubscribe = manager.subscribeToLogs(id, (logEntry) => {
+                const entry = filterLogEntry(logEntry, filter);
+                if (!entry) return;
+
                 try {
-                    controller.enqueue(
-                        encoder.encode(`data: ${JSON.stringify({ type: 'log', ...entry })}\n\n`)
-                    );
+                    controller.enqueue(encoder.encode(formatLogEvent(entry)));
                 } catch {
                     // Stream closed
                     unsubscribe();
@@ -68,6 +96,20 @@ export async function GET(
             };
             manager.on('status', statusHandler);
 
+            // Forward alerts raised by this service's output
+            const alertHandler = (alert: ServiceAlert) => {
+                if (alert.serviceId === id) {
+                    try {
+                        controller.enqueue(
+                            encoder.encode(`data: ${JSON.stringify({ type: 'alert', ...alert })}\n\n`)
+                        );
+                    } catch {
+                        // Stream closed
+                    }
+                }
+            };
+            manager.on('alert', alertHandler);
+
             // Keep-alive ping every 30 seconds
             const pingInterval = setInterval(() => {
                 try {
@@ -81,6 +123,7 @@ export async function GET(
             request.signal.addEventListener('abort', () => {
                 unsubscribe();
                 manager.off('status', statusHandler);
+                manager.off('alert', alertHandler);
                 clearInterval(pingInterval);
                 controller.close();
             });
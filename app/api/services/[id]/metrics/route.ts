@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, ServiceMetricsResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+export async function GET(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<ServiceMetricsResponse>>> {
+    try {
+        const { id } = await context.params;
+        const manager = getServiceManager();
+
+        if (!manager.getService(id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                supported: manager.isMetricsSupported(),
+                samples: manager.getMetrics(id),
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to get service metrics:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
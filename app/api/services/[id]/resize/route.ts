@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Keep a pty service's terminal size in sync with the dashboard terminal
+ */
+export async function POST(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+    try {
+        const { id } = await context.params;
+        const manager = getServiceManager();
+
+        if (!manager.getService(id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const { cols, rows } = await request.json();
+
+        manager.resizeTerminal(id, Number(cols), Number(rows));
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[API] Failed to resize service terminal:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 400 }
+        );
+    }
+}
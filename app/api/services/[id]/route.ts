@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, ServiceActionResponse, ServiceConfig } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Replace a service definition. A running service is only changed with
+ * `?restart=true`, and is restarted on the new definition.
+ */
+export async function PUT(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<ServiceActionResponse>>> {
+    try {
+        const { id } = await context.params;
+        const restart = request.nextUrl.searchParams.get('restart') === 'true';
+        const manager = getServiceManager();
+
+        if (!manager.getService(id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+        if (manager.isLive(id) && !restart) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' is running, stop it or confirm a restart` },
+                { status: 409 }
+            );
+        }
+
+        const body: ServiceConfig = await request.json();
+        const service = await manager.updateService(id, { ...body, id: body?.id ?? id }, { restart });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                service,
+                message: `Service '${id}' updated`,
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to update service:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 400 }
+        );
+    }
+}
+
+/**
+ * Remove a service definition. A running service is only removed with
+ * `?stop=true`, and is stopped first.
+ */
+export async function DELETE(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse>> {
+    try {
+        const { id } = await context.params;
+        const stop = request.nextUrl.searchParams.get('stop') === 'true';
+        const manager = getServiceManager();
+
+        if (!manager.getService(id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+        if (manager.isLive(id) && !stop) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' is running, stop it before deleting` },
+                { status: 409 }
+            );
+        }
+
+        await manager.deleteService(id, { stop });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[API] Failed to delete service:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 400 }
+        );
+    }
+}
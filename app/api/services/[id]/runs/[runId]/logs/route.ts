@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import { parseLogFilter, type LogFilter } from '@/lib/log-filter';
+import type { ApiResponse, RunLogsResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ id: string; runId: string }>;
+};
+
+export async function GET(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<RunLogsResponse>>> {
+    try {
+        const { id, runId } = await context.params;
+        const manager = getServiceManager();
+
+        if (!manager.getService(id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+
+        // Run ids become file names, so reject anything that could escape the log directory
+        if (!/^[\w-]+$/.test(runId) || !manager.getRunsWithLogs(id).has(runId)) {
+            return NextResponse.json(
+                { success: false, error: `No logs stored for run '${runId}'` },
+                { status: 404 }
+            );
+        }
+
+        // Same tail/since/until/stream/level/grep query as the live logs route
+        let filter: LogFilter;
+        try {
+            filter = parseLogFilter(request.nextUrl.searchParams);
+        } catch (error) {
+            return NextResponse.json(
+                { success: false, error: error instanceof Error ? error.message : 'Invalid log query' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { runId, ...manager.getRunLogs(id, runId, filter) },
+        });
+    } catch (error) {
+        console.error('[API] Failed to get run logs:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
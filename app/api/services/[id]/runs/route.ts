@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, RunHistoryResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+    params: Promise<{ id: string }>;
+};
+
+const DEFAULT_LIMIT = 50;
+
+export async function GET(
+    request: NextRequest,
+    context: RouteContext
+): Promise<NextResponse<ApiResponse<RunHistoryResponse>>> {
+    try {
+        const { id } = await context.params;
+        const manager = getServiceManager();
+
+        if (!manager.getService(id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${id}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const limitParam = request.nextUrl.searchParams.get('limit');
+        const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+
+        if (!Number.isInteger(limit) || limit <= 0) {
+            return NextResponse.json(
+                { success: false, error: 'limit must be a positive integer' },
+                { status: 400 }
+            );
+        }
+
+        const withLogs = manager.getRunsWithLogs(id);
+        const runs = manager.getRunHistory(id, limit).map(run => ({
+            ...run,
+            hasLogs: withLogs.has(run.runId),
+        }));
+
+        return NextResponse.json({
+            success: true,
+            data: { runs },
+        });
+    } catch (error) {
+        console.error('[API] Failed to get run history:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceManager } from '@/lib/service-manager';
+import type { ApiResponse, BulkActionResponse, ServiceAction } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: ServiceAction[] = ['start', 'stop', 'restart'];
+
+// Services started or stopped at the same time
+const CONCURRENCY = 4;
+
+const PAST_TENSE: Record<ServiceAction, string> = {
+    start: 'Started',
+    stop: 'Stopped',
+    restart: 'Restarted',
+};
+
+/**
+ * Start, stop or restart several services with `{ "action": "stop", "ids": [...] }`,
+ * or `"ids": "all"` for every service, a few at a time, with the outcome for each
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<BulkActionResponse>>> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { action, ids } = body ?? {};
+
+        if (!ACTIONS.includes(action)) {
+            return NextResponse.json(
+                { success: false, error: `action must be one of ${ACTIONS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+        if (ids !== 'all' && (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string'))) {
+            return NextResponse.json(
+                { success: false, error: "ids must be a non-empty array of service ids or 'all'" },
+                { status: 400 }
+            );
+        }
+
+        const manager = getServiceManager();
+        const targets: string[] = ids === 'all' ? manager.getAllServices().map(service => service.config.id) : ids;
+        const results = await manager.runServiceAction(action, targets, CONCURRENCY);
+        const succeeded = results.filter(result => result.success).length;
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                action,
+                results,
+                message: `${PAST_TENSE[action as ServiceAction]} ${succeeded} of ${results.length} services`,
+            },
+        });
+    } catch (error) {
+        console.error('[API] Failed to run bulk action:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,6 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getServiceManager } from '@/lib/service-manager';
-import type { ApiResponse, ServiceListResponse } from '@/lib/types';
+import type { ApiResponse, ServiceActionResponse, ServiceConfig, ServiceListResponse } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
@@ -24,3 +24,42 @@ export async function GET(): Promise<NextResponse<ApiResponse<ServiceListRespons
         );
     }
 }
+
+/**
+ * Add a service definition to services.json
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<ServiceActionResponse>>> {
+    try {
+        const config: ServiceConfig = await request.json();
+        const manager = getServiceManager();
+
+        if (manager.getService(config?.id)) {
+            return NextResponse.json(
+                { success: false, error: `Service '${config.id}' already exists` },
+                { status: 409 }
+            );
+        }
+
+        const service = manager.createService(config);
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: {
+                    service,
+                    message: `Service '${service.config.id}' created`,
+                },
+            },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('[API] Failed to create service:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 400 }
+        );
+    }
+}
@@ -1,4 +1,6 @@
 import { ServiceList } from '@/components/service-list';
+import { DesktopNotifications } from '@/components/desktop-notifications';
+import { ProfileSwitcher } from '@/components/profile-switcher';
 import { Server, Github } from 'lucide-react';
 
 export const dynamic = 'force-dynamic';
@@ -19,14 +21,18 @@ export default function Home() {
                 <p className="text-xs text-zinc-500">Local Dev Ops Dashboard</p>
               </div>
             </div>
-            <a
-              href="https://github.com"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="p-2 rounded-lg hover:bg-zinc-800 transition-colors"
-            >
-              <Github className="h-5 w-5 text-zinc-400" />
-            </a>
+            <div className="flex items-center gap-1">
+              <ProfileSwitcher />
+              <DesktopNotifications />
+              <a
+                href="https://github.com"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-2 rounded-lg hover:bg-zinc-800 transition-colors"
+              >
+                <Github className="h-5 w-5 text-zinc-400" />
+              </a>
+            </div>
           </div>
         </div>
       </header>
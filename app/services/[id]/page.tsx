@@ -3,9 +3,14 @@
 import { use, useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ServiceMetrics } from '@/components/service-metrics';
+import { RunTimeline } from '@/components/run-timeline';
+import { ServiceForm } from '@/components/service-form';
+import { ServiceEnv } from '@/components/service-env';
 import {
     ArrowLeft,
     Play,
@@ -14,11 +19,18 @@ import {
     Loader2,
     Circle,
     CircleX,
+    Download,
     CirclePause,
-    Trash2
+    HeartPulse,
+    ExternalLink,
+    Radio,
+    Search,
+    Trash2,
+    Pencil
 } from 'lucide-react';
-import { cn, formatUptime, getStatusColor } from '@/lib/utils';
-import type { ServiceInfo } from '@/lib/types';
+import { cn, formatBytes, formatUptime, getAlertColor, getHealthColor, getStatusColor } from '@/lib/utils';
+import { LOG_LEVELS } from '@/lib/log-parser';
+import type { LogLevel, RunRecord, ServiceInfo } from '@/lib/types';
 
 // Dynamic import for xterm.js (requires browser APIs)
 const TerminalView = dynamic(
@@ -39,10 +51,29 @@ interface PageProps {
 
 export default function ServiceDetailPage({ params }: PageProps) {
     const { id } = use(params);
+    const router = useRouter();
     const [service, setService] = useState<ServiceInfo | null>(null);
     const [loading, setLoading] = useState(true);
     const [actionLoading, setActionLoading] = useState<'start' | 'stop' | 'restart' | null>(null);
     const [error, setError] = useState<string | null>(null);
+    // Earlier run shown in the terminal instead of the live stream
+    const [selectedRun, setSelectedRun] = useState<RunRecord | null>(null);
+    const [grepInput, setGrepInput] = useState('');
+    const [logFilter, setLogFilter] = useState<{ grep?: string; stream?: string }>({});
+    // Levels shown when the service parses its output, all of them when empty
+    const [levels, setLevels] = useState<LogLevel[]>([]);
+    const [downloadOpen, setDownloadOpen] = useState(false);
+    const [editing, setEditing] = useState(false);
+
+    // Export what the terminal shows: the selected run and the active filter
+    const exportUrl = (format: 'text' | 'ndjson' | 'html') => {
+        const params = new URLSearchParams({ format });
+        if (selectedRun) params.set('runId', selectedRun.runId);
+        if (logFilter.grep) params.set('grep', logFilter.grep);
+        if (logFilter.stream) params.set('stream', logFilter.stream);
+        if (levels.length > 0) params.set('level', levels.join(','));
+        return `/api/services/${id}/logs/export?${params}`;
+    };
 
     const fetchService = useCallback(async () => {
         try {
@@ -96,6 +127,30 @@ export default function ServiceDetailPage({ params }: PageProps) {
         }
     };
 
+    const handleDelete = async () => {
+        const live = service?.status !== 'stopped' && service?.status !== 'error' && service?.status !== 'crash-loop';
+        const question = live
+            ? `'${service?.config.name}' is running. Stop and delete it?`
+            : `Delete '${service?.config.name}'?`;
+        if (!confirm(question)) return;
+
+        setError(null);
+        try {
+            const response = await fetch(`/api/services/${id}${live ? '?stop=true' : ''}`, {
+                method: 'DELETE',
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                router.push('/');
+            } else {
+                setError(data.error || 'Failed to delete service');
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        }
+    };
+
     const getStatusIcon = () => {
         if (actionLoading || service?.status === 'starting' || service?.status === 'stopping') {
             return <Loader2 className="h-3 w-3 animate-spin" />;
@@ -104,6 +159,7 @@ export default function ServiceDetailPage({ params }: PageProps) {
             case 'running':
                 return <Circle className="h-3 w-3 fill-current" />;
             case 'error':
+            case 'crash-loop':
                 return <CircleX className="h-3 w-3" />;
             default:
                 return <CirclePause className="h-3 w-3" />;
@@ -111,7 +167,7 @@ export default function ServiceDetailPage({ params }: PageProps) {
     };
 
     const isRunning = service?.status === 'running';
-    const isStopped = service?.status === 'stopped' || service?.status === 'error';
+    const isStopped = service?.status === 'stopped' || service?.status === 'error' || service?.status === 'crash-loop';
     const isTransitioning = service?.status === 'starting' || service?.status === 'stopping';
 
     if (loading) {
@@ -138,6 +194,17 @@ export default function ServiceDetailPage({ params }: PageProps) {
 
     return (
         <div className="min-h-screen flex flex-col">
+            {editing && (
+                <ServiceForm
+                    service={service.config}
+                    onSaved={(saved) => {
+                        setService(saved);
+                        setEditing(false);
+                    }}
+                    onCancel={() => setEditing(false)}
+                />
+            )}
+
             {/* Header */}
             <header className="border-b border-zinc-800 bg-zinc-900/50 backdrop-blur-sm sticky top-0 z-50">
                 <div className="container mx-auto px-4 py-4">
@@ -160,6 +227,15 @@ export default function ServiceDetailPage({ params }: PageProps) {
                             </div>
                         </div>
                         <div className="flex items-center gap-3">
+                            {service.health && service.status !== 'stopped' && (
+                                <Badge
+                                    variant="outline"
+                                    className={cn('flex items-center gap-1.5', getHealthColor(service.health))}
+                                >
+                                    <HeartPulse className="h-3 w-3" />
+                                    <span className="capitalize">{service.health}</span>
+                                </Badge>
+                            )}
                             <Badge
                                 variant="outline"
                                 className={cn('flex items-center gap-1.5', getStatusColor(service.status))}
@@ -175,30 +251,180 @@ export default function ServiceDetailPage({ params }: PageProps) {
             {/* Main content */}
             <main className="flex-1 container mx-auto px-4 py-6">
                 <div className="grid gap-6 lg:grid-cols-[1fr_300px]">
-                    {/* Terminal */}
-                    <Card className="bg-zinc-900/50 border-zinc-800">
-                        <CardHeader className="pb-3">
-                            <div className="flex items-center justify-between">
+                    <div className="space-y-6 min-w-0">
+                        {(service.configOutdated || service.removed) && (
+                            <div className="flex items-center justify-between gap-4 p-4 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm text-amber-400">
+                                <span>
+                                    {service.removed
+                                        ? 'This service was removed from the config file. Stop it to remove it from the dashboard.'
+                                        : 'The definition changed in the config file since this run started. Restart to apply it.'}
+                                </span>
+                                {!service.removed && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleAction('restart')}
+                                        disabled={!!actionLoading}
+                                        className="border-amber-500/30 hover:bg-amber-500/10 shrink-0"
+                                    >
+                                        <RotateCcw className="h-4 w-4 mr-1" />
+                                        Restart
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Terminal */}
+                        <Card className="bg-zinc-900/50 border-zinc-800">
+                            <CardHeader className="pb-3">
+                                <div className="flex items-center justify-between">
+                                    <CardTitle className="text-sm text-zinc-400 font-medium">
+                                        {selectedRun
+                                            ? `Output of run started ${new Date(selectedRun.startedAt).toLocaleString()}`
+                                            : 'Output'}
+                                    </CardTitle>
+                                    <div className="flex items-center gap-1">
+                                        <div className="relative">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-zinc-500 hover:text-zinc-300"
+                                                onClick={() => setDownloadOpen((open) => !open)}
+                                            >
+                                                <Download className="h-3 w-3 mr-1" />
+                                                Download
+                                            </Button>
+                                            {downloadOpen && (
+                                                <div className="absolute right-0 z-10 mt-1 w-32 rounded-md border border-zinc-800 bg-zinc-900 py-1 shadow-lg">
+                                                    {([['text', 'Plain text'], ['ndjson', 'NDJSON'], ['html', 'HTML']] as const).map(([format, label]) => (
+                                                        <a
+                                                            key={format}
+                                                            href={exportUrl(format)}
+                                                            download
+                                                            className="block px-3 py-1.5 text-xs text-zinc-300 hover:bg-zinc-800"
+                                                            onClick={() => setDownloadOpen(false)}
+                                                        >
+                                                            {label}
+                                                        </a>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                        {selectedRun ? (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-zinc-500 hover:text-zinc-300"
+                                                onClick={() => setSelectedRun(null)}
+                                            >
+                                                <Radio className="h-3 w-3 mr-1" />
+                                                Back to live
+                                            </Button>
+                                        ) : (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-zinc-500 hover:text-zinc-300"
+                                                onClick={() => window.location.reload()}
+                                            >
+                                                <Trash2 className="h-3 w-3 mr-1" />
+                                                Clear
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                                <form
+                                    className="flex items-center gap-2 mt-2"
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        setLogFilter((f) => ({ ...f, grep: grepInput || undefined }));
+                                    }}
+                                >
+                                    <div className="relative flex-1">
+                                        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-zinc-500" />
+                                        <input
+                                            value={grepInput}
+                                            onChange={(e) => setGrepInput(e.target.value)}
+                                            onBlur={() => setLogFilter((f) => ({ ...f, grep: grepInput || undefined }))}
+                                            placeholder="Filter output (text or /regex/)"
+                                            className="w-full h-7 pl-7 pr-2 rounded-md bg-zinc-950 border border-zinc-800 text-xs text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+                                        />
+                                    </div>
+                                    <select
+                                        value={logFilter.stream ?? ''}
+                                        onChange={(e) => setLogFilter((f) => ({ ...f, stream: e.target.value || undefined }))}
+                                        className="h-7 px-2 rounded-md bg-zinc-950 border border-zinc-800 text-xs text-zinc-300 focus:outline-none focus:border-zinc-600"
+                                    >
+                                        <option value="">All streams</option>
+                                        <option value="stdout">stdout</option>
+                                        <option value="stderr">stderr</option>
+                                    </select>
+                                    {service.config.logParser && (
+                                        <div className="flex items-center gap-0.5">
+                                            {LOG_LEVELS.map((level) => (
+                                                <button
+                                                    key={level}
+                                                    type="button"
+                                                    className={cn(
+                                                        'h-7 px-1.5 rounded-md text-[10px] uppercase font-medium border',
+                                                        levels.includes(level)
+                                                            ? 'bg-zinc-800 border-zinc-600 text-zinc-200'
+                                                            : 'border-transparent text-zinc-500 hover:text-zinc-300'
+                                                    )}
+                                                    onClick={() => setLevels((current) => (
+                                                        current.includes(level)
+                                                            ? current.filter((l) => l !== level)
+                                                            : [...current, level]
+                                                    ))}
+                                                >
+                                                    {level}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </form>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                <div className="h-[500px] p-2">
+                                    <TerminalView
+                                        serviceId={id}
+                                        className="h-full"
+                                        interactive={!!service.config.pty}
+                                        runId={selectedRun?.runId}
+                                        filter={{ ...logFilter, level: levels.join(',') }}
+                                    />
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        {/* Run history */}
+                        <Card className="bg-zinc-900/50 border-zinc-800">
+                            <CardHeader className="pb-3">
                                 <CardTitle className="text-sm text-zinc-400 font-medium">
-                                    Output
+                                    Run History
                                 </CardTitle>
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="text-zinc-500 hover:text-zinc-300"
-                                    onClick={() => window.location.reload()}
-                                >
-                                    <Trash2 className="h-3 w-3 mr-1" />
-                                    Clear
-                                </Button>
-                            </div>
-                        </CardHeader>
-                        <CardContent className="p-0">
-                            <div className="h-[500px] p-2">
-                                <TerminalView serviceId={id} className="h-full" />
-                            </div>
-                        </CardContent>
-                    </Card>
+                            </CardHeader>
+                            <CardContent>
+                                <RunTimeline
+                                    serviceId={id}
+                                    selectedRunId={selectedRun?.runId}
+                                    onSelectRun={setSelectedRun}
+                                />
+                            </CardContent>
+                        </Card>
+
+                        {/* Effective environment */}
+                        <Card className="bg-zinc-900/50 border-zinc-800">
+                            <CardHeader className="pb-3">
+                                <CardTitle className="text-sm text-zinc-400 font-medium">
+                                    Environment
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <ServiceEnv serviceId={id} configKey={JSON.stringify(service.config)} />
+                            </CardContent>
+                        </Card>
+                    </div>
 
                     {/* Sidebar */}
                     <div className="space-y-4">
@@ -251,6 +477,25 @@ export default function ServiceDetailPage({ params }: PageProps) {
                                     )}
                                     Restart Service
                                 </Button>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        className="flex-1 border-zinc-700 hover:bg-zinc-800"
+                                        onClick={() => setEditing(true)}
+                                    >
+                                        <Pencil className="h-4 w-4 mr-2" />
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        className="flex-1 border-zinc-700 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                                        onClick={handleDelete}
+                                        disabled={!!actionLoading}
+                                    >
+                                        <Trash2 className="h-4 w-4 mr-2" />
+                                        Delete
+                                    </Button>
+                                </div>
                             </CardContent>
                         </Card>
 
@@ -279,10 +524,32 @@ export default function ServiceDetailPage({ params }: PageProps) {
                                             {service.config.cwd}
                                         </dd>
                                     </div>
+                                    {service.config.dependsOn && service.config.dependsOn.length > 0 && (
+                                        <div>
+                                            <dt className="text-zinc-500">Depends On</dt>
+                                            <dd className="text-zinc-300 font-mono text-xs mt-0.5 space-x-2">
+                                                {service.config.dependsOn.map((dep) => {
+                                                    const depId = typeof dep === 'string' ? dep : dep.id;
+                                                    return (
+                                                        <Link key={depId} href={`/services/${depId}`} className="underline hover:text-zinc-100">
+                                                            {depId}
+                                                        </Link>
+                                                    );
+                                                })}
+                                            </dd>
+                                        </div>
+                                    )}
                                     {service.pid && (
                                         <div>
                                             <dt className="text-zinc-500">Process ID</dt>
-                                            <dd className="text-zinc-300 font-mono text-xs mt-0.5">{service.pid}</dd>
+                                            <dd className="text-zinc-300 font-mono text-xs mt-0.5">
+                                                {service.pid}
+                                                {service.adopted && (
+                                                    <span className="block font-sans text-zinc-500 mt-0.5">
+                                                        Adopted from a previous hub session, earlier output is not available
+                                                    </span>
+                                                )}
+                                            </dd>
                                         </div>
                                     )}
                                     {service.startedAt && (
@@ -293,6 +560,57 @@ export default function ServiceDetailPage({ params }: PageProps) {
                                             </dd>
                                         </div>
                                     )}
+                                    {service.urls && service.urls.length > 0 && (
+                                        <div>
+                                            <dt className="text-zinc-500">Listening On</dt>
+                                            <dd className="font-mono text-xs mt-0.5 space-y-0.5">
+                                                {service.urls.map((url) => (
+                                                    <a
+                                                        key={url}
+                                                        href={url}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 hover:underline"
+                                                    >
+                                                        {url}
+                                                        <ExternalLink className="h-3 w-3" />
+                                                    </a>
+                                                ))}
+                                            </dd>
+                                        </div>
+                                    )}
+                                    {!isTransitioning && service.status !== 'running' && service.exitCode !== undefined && (
+                                        <div>
+                                            <dt className="text-zinc-500">Last Exit</dt>
+                                            <dd className="text-zinc-300 font-mono text-xs mt-0.5">
+                                                {service.exitSignal
+                                                    ? `killed by ${service.exitSignal}`
+                                                    : `code ${service.exitCode}`}
+                                            </dd>
+                                        </div>
+                                    )}
+                                    {service.restartCount > 0 && (
+                                        <div>
+                                            <dt className="text-zinc-500">Automatic Restarts</dt>
+                                            <dd className="text-zinc-300 text-xs mt-0.5">
+                                                {service.restartCount}
+                                                {service.config.maxRestarts !== undefined && ` (max ${service.config.maxRestarts} in a row)`}
+                                            </dd>
+                                        </div>
+                                    )}
+                                    {service.logBuffer && (
+                                        <div>
+                                            <dt className="text-zinc-500">Log Buffer</dt>
+                                            <dd className="text-zinc-300 text-xs mt-0.5">
+                                                {formatBytes(service.logBuffer.bytes)} of {formatBytes(service.logBuffer.maxBytes)}
+                                                {service.logBuffer.evictedEntries > 0 && (
+                                                    <span className="text-zinc-500">
+                                                        {' '}· {service.logBuffer.evictedEntries} older line{service.logBuffer.evictedEntries !== 1 ? 's' : ''} dropped
+                                                    </span>
+                                                )}
+                                            </dd>
+                                        </div>
+                                    )}
                                     {service.config.env && Object.keys(service.config.env).length > 0 && (
                                         <div>
                                             <dt className="text-zinc-500">Environment</dt>
@@ -307,6 +625,107 @@ export default function ServiceDetailPage({ params }: PageProps) {
                             </CardContent>
                         </Card>
 
+                        {/* Resource usage */}
+                        {(service.status === 'running' || service.status === 'starting') && (
+                            <Card className="bg-zinc-900/50 border-zinc-800">
+                                <CardHeader className="pb-3">
+                                    <CardTitle className="text-sm text-zinc-400 font-medium">
+                                        Resources
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <ServiceMetrics serviceId={id} active />
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Health */}
+                        {service.config.healthCheck && (
+                            <Card className="bg-zinc-900/50 border-zinc-800">
+                                <CardHeader className="pb-3">
+                                    <CardTitle className="text-sm text-zinc-400 font-medium">
+                                        Health
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <dl className="space-y-3 text-sm">
+                                        <div>
+                                            <dt className="text-zinc-500">Probe</dt>
+                                            <dd className="text-zinc-300 font-mono text-xs mt-0.5 break-all">
+                                                {service.config.healthCheck.type}{' '}
+                                                {service.config.healthCheck.url
+                                                    ?? service.config.healthCheck.command
+                                                    ?? `${service.config.healthCheck.host ?? '127.0.0.1'}:${service.config.healthCheck.port}`}
+                                            </dd>
+                                        </div>
+                                        <div>
+                                            <dt className="text-zinc-500">Status</dt>
+                                            <dd className="text-zinc-300 text-xs mt-0.5 capitalize">
+                                                {service.status === 'stopped' ? 'n/a' : service.health ?? 'n/a'}
+                                            </dd>
+                                        </div>
+                                        {service.lastProbe && (
+                                            <div>
+                                                <dt className="text-zinc-500">Last Probe</dt>
+                                                <dd className={cn('text-xs mt-0.5', service.lastProbe.ok ? 'text-emerald-400' : 'text-red-400')}>
+                                                    {service.lastProbe.message}
+                                                    <span className="text-zinc-500">
+                                                        {' '}· {service.lastProbe.durationMs}ms · {new Date(service.lastProbe.timestamp).toLocaleTimeString()}
+                                                    </span>
+                                                </dd>
+                                            </div>
+                                        )}
+                                    </dl>
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Alerts */}
+                        {service.alertCount > 0 && service.lastAlert && (
+                            <Card className="bg-zinc-900/50 border-zinc-800">
+                                <CardHeader className="pb-3">
+                                    <div className="flex items-center justify-between">
+                                        <CardTitle className="text-sm text-zinc-400 font-medium">
+                                            Alerts
+                                        </CardTitle>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 text-zinc-500 hover:text-zinc-300"
+                                            onClick={async () => {
+                                                await fetch(`/api/alerts?serviceId=${encodeURIComponent(id)}`, { method: 'DELETE' });
+                                                fetchService();
+                                            }}
+                                        >
+                                            Clear
+                                        </Button>
+                                    </div>
+                                </CardHeader>
+                                <CardContent>
+                                    <dl className="space-y-3 text-sm">
+                                        <div>
+                                            <dt className="text-zinc-500">Raised</dt>
+                                            <dd className="text-zinc-300 text-xs mt-0.5">
+                                                {service.alertCount} time{service.alertCount !== 1 ? 's' : ''}
+                                            </dd>
+                                        </div>
+                                        <div>
+                                            <dt className="text-zinc-500">Latest</dt>
+                                            <dd className="text-xs mt-0.5">
+                                                <Badge variant="outline" className={cn('mb-1', getAlertColor(service.lastAlert.severity))}>
+                                                    {service.lastAlert.rule}
+                                                </Badge>
+                                                <p className="text-zinc-300 font-mono break-all">{service.lastAlert.line}</p>
+                                                <p className="text-zinc-500 mt-0.5">
+                                                    {new Date(service.lastAlert.timestamp).toLocaleString()}
+                                                </p>
+                                            </dd>
+                                        </div>
+                                    </dl>
+                                </CardContent>
+                            </Card>
+                        )}
+
                         {/* Error display */}
                         {(error || service.error) && (
                             <Card className="bg-red-500/10 border-red-500/20">
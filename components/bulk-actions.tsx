@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Play, PowerOff, RotateCcw, Square, X } from 'lucide-react';
+import type { ServiceAction, ServiceActionResult } from '@/lib/types';
+
+type BulkAction = ServiceAction | 'stop-all';
+
+interface BulkActionsProps {
+    /** Ids of the selected services */
+    selected: string[];
+    total: number;
+    onSelectAll: () => void;
+    onClear: () => void;
+    onDone: () => void;
+}
+
+/**
+ * Toolbar to start, stop or restart the selected services, or stop everything
+ */
+export function BulkActions({ selected, total, onSelectAll, onClear, onDone }: BulkActionsProps) {
+    const [loading, setLoading] = useState<BulkAction | null>(null);
+    const [failures, setFailures] = useState<ServiceActionResult[]>([]);
+
+    const handleAction = async (action: BulkAction) => {
+        if (action === 'stop-all' && !window.confirm('Stop all running services?')) return;
+
+        setLoading(action);
+        setFailures([]);
+
+        try {
+            const response = await fetch('/api/services/actions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(
+                    action === 'stop-all' ? { action: 'stop', ids: 'all' } : { action, ids: selected }
+                ),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setFailures(data.data.results.filter((result: ServiceActionResult) => !result.success));
+            } else {
+                setFailures([{ id: action, success: false, error: data.error || 'Action failed' }]);
+            }
+
+            onDone();
+        } catch (err) {
+            setFailures([{ id: action, success: false, error: err instanceof Error ? err.message : 'Request failed' }]);
+        } finally {
+            setLoading(null);
+        }
+    };
+
+    const icon = (action: BulkAction, Icon: typeof Play) => (
+        loading === action ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Icon className="h-4 w-4 mr-1" />
+    );
+    const noSelection = selected.length === 0;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-zinc-900/50 border border-zinc-800 text-sm">
+                <span className="px-1 text-zinc-400">
+                    {selected.length} of {total} selected
+                </span>
+                <button
+                    onClick={selected.length === total ? onClear : onSelectAll}
+                    className="px-1 text-zinc-500 hover:text-zinc-200"
+                >
+                    {selected.length === total ? 'Select none' : 'Select all'}
+                </button>
+                {!noSelection && selected.length !== total && (
+                    <button onClick={onClear} className="p-1 rounded-md text-zinc-500 hover:text-zinc-200" title="Clear selection">
+                        <X className="h-3 w-3" />
+                    </button>
+                )}
+
+                <div className="ml-auto flex flex-wrap items-center gap-1">
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleAction('start')}
+                        disabled={!!loading || noSelection}
+                        className="h-7 text-zinc-400 hover:text-green-500"
+                    >
+                        {icon('start', Play)}
+                        Start Selected
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleAction('stop')}
+                        disabled={!!loading || noSelection}
+                        className="h-7 text-zinc-400 hover:text-red-500"
+                    >
+                        {icon('stop', Square)}
+                        Stop Selected
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleAction('restart')}
+                        disabled={!!loading || noSelection}
+                        className="h-7 text-zinc-400 hover:text-zinc-100"
+                    >
+                        {icon('restart', RotateCcw)}
+                        Restart Selected
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleAction('stop-all')}
+                        disabled={!!loading}
+                        className="h-7"
+                    >
+                        {icon('stop-all', PowerOff)}
+                        Stop All
+                    </Button>
+                </div>
+            </div>
+
+            {failures.length > 0 && (
+                <div className="p-2 rounded bg-red-500/10 border border-red-500/20 text-red-400 text-sm space-y-0.5">
+                    {failures.map((failure) => (
+                        <p key={failure.id}>
+                            <span className="font-mono">{failure.id}</span>: {failure.error}
+                        </p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
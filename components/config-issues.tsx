@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ConfigIssue } from '@/lib/types';
+
+// Issues shown before the list is expanded
+const COLLAPSED_COUNT = 5;
+
+interface ConfigIssuesProps {
+    /** Name of the config file, e.g. services.json */
+    file: string;
+    issues: ConfigIssue[];
+}
+
+/**
+ * Banner listing problems in the config file with the path of each one
+ */
+export function ConfigIssues({ file, issues }: ConfigIssuesProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    if (issues.length === 0) return null;
+
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const shown = expanded ? issues : issues.slice(0, COLLAPSED_COUNT);
+
+    return (
+        <div
+            className={cn(
+                'p-4 rounded-lg border text-sm',
+                errors > 0
+                    ? 'bg-red-500/10 border-red-500/20 text-red-400'
+                    : 'bg-amber-500/10 border-amber-500/20 text-amber-400'
+            )}
+        >
+            <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                {errors > 0
+                    ? `${file} has ${errors} error${errors !== 1 ? 's' : ''}, affected entries were skipped`
+                    : `${file} has ${issues.length} warning${issues.length !== 1 ? 's' : ''}`}
+            </div>
+            <ul className="mt-2 space-y-1">
+                {shown.map((issue, i) => (
+                    <li key={i} className="flex gap-2">
+                        <span className={issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}>
+                            {issue.severity === 'error' ? '✖' : '⚠'}
+                        </span>
+                        <code className="text-zinc-300">{issue.path}</code>
+                        <span className="text-zinc-400">{issue.message}</span>
+                    </li>
+                ))}
+            </ul>
+            {issues.length > COLLAPSED_COUNT && (
+                <button
+                    onClick={() => setExpanded(!expanded)}
+                    className="mt-2 flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200"
+                >
+                    {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                    {expanded ? 'Show less' : `Show all ${issues.length}`}
+                </button>
+            )}
+        </div>
+    );
+}
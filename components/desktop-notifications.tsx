@@ -0,0 +1,83 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useHubEvents } from '@/lib/hub-events';
+
+const STORAGE_KEY = 'services-hub:desktop-notifications';
+const CHANGE_EVENT = 'services-hub:desktop-notifications-change';
+
+function subscribe(onChange: () => void) {
+    window.addEventListener('storage', onChange);
+    window.addEventListener(CHANGE_EVENT, onChange);
+    return () => {
+        window.removeEventListener('storage', onChange);
+        window.removeEventListener(CHANGE_EVENT, onChange);
+    };
+}
+
+/**
+ * Notifications are on when the user enabled them here and the browser allows them
+ */
+function isEnabled(): boolean {
+    return typeof Notification !== 'undefined'
+        && Notification.permission === 'granted'
+        && localStorage.getItem(STORAGE_KEY) === 'on';
+}
+
+function setEnabled(enabled: boolean) {
+    localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * Header toggle that shows desktop notifications for events the hub routes
+ * to `browser` sinks, so crashes are noticed with the dashboard in a background tab
+ */
+export function DesktopNotifications() {
+    const enabled = useSyncExternalStore(subscribe, isEnabled, () => false);
+
+    useHubEvents((event) => {
+        if (event.type !== 'notification') return;
+
+        try {
+            const notification = new Notification(`${event.serviceName}: ${event.event}`, {
+                body: String(event.message),
+                tag: String(event.id),
+            });
+            notification.onclick = () => {
+                window.focus();
+                window.location.href = `/services/${event.serviceId}`;
+            };
+        } catch (err) {
+            console.error('Failed to show notification:', err);
+        }
+    }, enabled);
+
+    const toggle = async () => {
+        if (typeof Notification === 'undefined') return;
+
+        if (enabled) {
+            setEnabled(false);
+            return;
+        }
+        if (Notification.permission !== 'granted' && await Notification.requestPermission() !== 'granted') {
+            return;
+        }
+        setEnabled(true);
+    };
+
+    return (
+        <button
+            onClick={toggle}
+            className={cn(
+                'p-2 rounded-lg hover:bg-zinc-800 transition-colors',
+                enabled ? 'text-emerald-400' : 'text-zinc-400'
+            )}
+            title={enabled ? 'Desktop notifications on' : 'Enable desktop notifications'}
+        >
+            {enabled ? <Bell className="h-5 w-5" /> : <BellOff className="h-5 w-5" />}
+        </button>
+    );
+}
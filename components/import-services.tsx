@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, X } from 'lucide-react';
+import type { ImportServicesResponse } from '@/lib/types';
+
+interface ImportServicesProps {
+    onImported: () => void;
+    onClose: () => void;
+}
+
+/**
+ * Modal to convert a Procfile or compose file into services: the file is
+ * previewed first, then imported into the config file
+ */
+export function ImportServices({ onImported, onClose }: ImportServicesProps) {
+    const [filePath, setFilePath] = useState('');
+    const [preview, setPreview] = useState<ImportServicesResponse | null>(null);
+    const [result, setResult] = useState<ImportServicesResponse | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const runImport = async (dryRun: boolean) => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/config/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ path: filePath, dryRun }),
+            });
+            const data = await response.json();
+
+            if (!data.success) {
+                setError(data.error || 'Import failed');
+            } else if (dryRun) {
+                setPreview(data.data);
+            } else {
+                setResult(data.data);
+                onImported();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 p-4">
+            <Card className="w-full max-w-2xl bg-zinc-900 border-zinc-800">
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-zinc-100">Import Services</CardTitle>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="p-1 rounded-md text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                    >
+                        <X className="h-4 w-4" />
+                    </button>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                    <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            setResult(null);
+                            runImport(true);
+                        }}
+                    >
+                        <input
+                            value={filePath}
+                            onChange={(e) => {
+                                setFilePath(e.target.value);
+                                setPreview(null);
+                            }}
+                            placeholder="/path/to/Procfile or docker-compose.yml"
+                            required
+                            className="flex-1 h-8 px-2 rounded-md bg-zinc-950 border border-zinc-800 text-sm text-zinc-300 font-mono placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+                        />
+                        <Button
+                            type="submit"
+                            variant="outline"
+                            size="sm"
+                            disabled={loading}
+                            className="border-zinc-700 hover:bg-zinc-800"
+                        >
+                            Preview
+                        </Button>
+                    </form>
+
+                    {error && (
+                        <div className="p-2 rounded-md bg-red-500/10 border border-red-500/20 text-red-400 text-xs">
+                            {error}
+                        </div>
+                    )}
+
+                    {preview && !result && (
+                        <div className="space-y-3">
+                            <p className="text-zinc-400">
+                                {preview.services.length} service{preview.services.length !== 1 ? 's' : ''} found
+                                in this {preview.format === 'procfile' ? 'Procfile' : 'compose file'}
+                            </p>
+                            <div className="max-h-64 overflow-y-auto rounded-md border border-zinc-800 divide-y divide-zinc-800">
+                                {preview.services.map((service) => (
+                                    <div key={service.id} className="p-2 space-y-0.5">
+                                        <div className="text-zinc-200 font-mono text-xs">{service.id}</div>
+                                        <div className="text-zinc-400 font-mono text-xs truncate" title={service.command}>
+                                            {service.command}
+                                        </div>
+                                        <div className="text-zinc-500 font-mono text-xs truncate">{service.cwd}</div>
+                                    </div>
+                                ))}
+                            </div>
+                            {preview.warnings.map((warning, i) => (
+                                <p key={i} className="text-amber-400 text-xs">{warning}</p>
+                            ))}
+                        </div>
+                    )}
+
+                    {result && (
+                        <div className="space-y-1">
+                            <p className="text-emerald-400">
+                                Imported {result.imported.length} service{result.imported.length !== 1 ? 's' : ''}
+                            </p>
+                            {result.skipped.map((skip) => (
+                                <p key={skip.id} className="text-amber-400 text-xs">
+                                    Skipped <span className="font-mono">{skip.id}</span>: {skip.reason}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={onClose}
+                            className="border-zinc-700 hover:bg-zinc-800"
+                        >
+                            {result ? 'Done' : 'Cancel'}
+                        </Button>
+                        {!result && (
+                            <Button
+                                onClick={() => runImport(false)}
+                                disabled={loading || !preview || preview.services.length === 0}
+                            >
+                                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Import
+                            </Button>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
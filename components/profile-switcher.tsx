@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Layers, Loader2 } from 'lucide-react';
+import { useHubEvents } from '@/lib/hub-events';
+import type { ProfileInfo } from '@/lib/types';
+
+/**
+ * Header control to switch profiles. Hidden when the config defines none.
+ */
+export function ProfileSwitcher() {
+    const [profiles, setProfiles] = useState<ProfileInfo[]>([]);
+    const [active, setActive] = useState<string | null>(null);
+    const [switching, setSwitching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Bumped to reload when profiles change with the config file, or are switched from another tab
+    const [version, setVersion] = useState(0);
+
+    useHubEvents((event) => {
+        if (event.type === 'config' || event.type === 'profile') setVersion((v) => v + 1);
+    });
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const response = await fetch('/api/profiles');
+                const data = await response.json();
+
+                if (data.success) {
+                    setProfiles(data.data.profiles);
+                    setActive(data.data.active);
+                }
+            } catch (err) {
+                console.error('Failed to fetch profiles:', err);
+            }
+        };
+
+        load();
+    }, [version]);
+
+    const switchProfile = async (name: string | null) => {
+        setSwitching(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/profiles', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ active: name }),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setActive(data.data.active);
+            } else {
+                setError(data.error || 'Failed to switch profile');
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        } finally {
+            setSwitching(false);
+        }
+    };
+
+    if (profiles.length === 0) return null;
+
+    const description = profiles.find(profile => profile.name === active)?.description;
+
+    return (
+        <div className="flex items-center gap-2 mr-2" title={error ?? description}>
+            {switching ? (
+                <Loader2 className="h-4 w-4 text-zinc-400 animate-spin" />
+            ) : (
+                <Layers className={error ? 'h-4 w-4 text-red-400' : 'h-4 w-4 text-zinc-400'} />
+            )}
+            <select
+                value={active ?? ''}
+                onChange={(e) => switchProfile(e.target.value || null)}
+                disabled={switching}
+                className="h-8 px-2 rounded-md bg-zinc-950 border border-zinc-800 text-sm text-zinc-300 focus:outline-none focus:border-zinc-600"
+            >
+                <option value="">No profile</option>
+                {profiles.map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                        {profile.name} ({profile.services.length})
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
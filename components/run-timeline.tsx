@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn, formatDuration, formatUptime } from '@/lib/utils';
+import type { RunRecord } from '@/lib/types';
+
+interface RunTimelineProps {
+    serviceId: string;
+    selectedRunId?: string;
+    /** Called with a run whose output is stored on disk */
+    onSelectRun?: (run: RunRecord) => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const TRIGGER_LABELS: Record<RunRecord['trigger'], string> = {
+    'user': 'Manual',
+    'auto-start': 'Auto-start',
+    'dependency': 'Dependency',
+    'auto-restart': 'Auto-restart',
+    'file-watch': 'File watch',
+    'schedule': 'Schedule',
+    'profile': 'Profile',
+};
+
+/**
+ * Classify how a run ended for its marker colour
+ */
+function getRunOutcome(run: RunRecord): 'running' | 'success' | 'stopped' | 'failed' {
+    if (!run.endedAt) return 'running';
+    if (run.error || (run.exitCode !== null && run.exitCode !== undefined && run.exitCode !== 0)) {
+        return 'failed';
+    }
+    if (run.signal) return 'stopped';
+    return 'success';
+}
+
+const OUTCOME_COLORS: Record<ReturnType<typeof getRunOutcome>, string> = {
+    running: 'bg-emerald-500',
+    success: 'bg-zinc-500',
+    stopped: 'bg-amber-500',
+    failed: 'bg-red-500',
+};
+
+/**
+ * Describe how a run ended
+ */
+function describeExit(run: RunRecord): string {
+    if (!run.endedAt) return 'running';
+    if (run.error) return run.error;
+    if (run.signal) return run.signal;
+    return `exit ${run.exitCode ?? '?'}`;
+}
+
+/**
+ * Recent runs of a service, newest first
+ */
+export function RunTimeline({ serviceId, selectedRunId, onSelectRun }: RunTimelineProps) {
+    const [runs, setRuns] = useState<RunRecord[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const response = await fetch(`/api/services/${serviceId}/runs`);
+                const data = await response.json();
+
+                if (!cancelled && data.success) {
+                    setRuns(data.data.runs);
+                }
+            } catch {
+                // Keep showing the last known runs
+            }
+        };
+
+        load();
+        const interval = setInterval(load, POLL_INTERVAL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [serviceId]);
+
+    if (runs.length === 0) {
+        return <p className="text-sm text-zinc-500">No runs recorded yet</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {/* Oldest to newest strip, so crash streaks stand out at a glance */}
+            <div className="flex gap-0.5">
+                {[...runs].reverse().map((run) => (
+                    <div
+                        key={run.runId}
+                        className={cn('h-3 flex-1 max-w-3 rounded-sm', OUTCOME_COLORS[getRunOutcome(run)])}
+                        title={`${new Date(run.startedAt).toLocaleString()} · ${describeExit(run)}`}
+                    />
+                ))}
+            </div>
+
+            <ol className="max-h-72 overflow-y-auto divide-y divide-zinc-800 text-xs">
+                {runs.map((run) => {
+                    const outcome = getRunOutcome(run);
+                    const selectable = run.hasLogs && !!onSelectRun;
+                    return (
+                        <li
+                            key={run.runId}
+                            className={cn(
+                                'flex items-center gap-3 py-2 px-1',
+                                selectable && 'cursor-pointer hover:bg-zinc-800/50',
+                                run.runId === selectedRunId && 'bg-zinc-800'
+                            )}
+                            title={selectable ? 'Show the output of this run' : undefined}
+                            onClick={selectable ? () => onSelectRun(run) : undefined}
+                        >
+                            <span className={cn('h-2 w-2 shrink-0 rounded-full', OUTCOME_COLORS[outcome])} />
+                            <span className="text-zinc-300 font-mono whitespace-nowrap">
+                                {new Date(run.startedAt).toLocaleString()}
+                            </span>
+                            <span className="text-zinc-500 whitespace-nowrap">
+                                {run.durationMs !== undefined
+                                    ? formatDuration(run.durationMs)
+                                    : formatUptime(run.startedAt)}
+                            </span>
+                            <span className={cn(
+                                'min-w-0 flex-1 truncate',
+                                outcome === 'failed' ? 'text-red-400' : 'text-zinc-400'
+                            )}>
+                                {describeExit(run)}
+                            </span>
+                            <span className="text-zinc-500 whitespace-nowrap">
+                                {TRIGGER_LABELS[run.trigger]}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+}
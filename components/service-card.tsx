@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { ServiceMetrics } from './service-metrics';
 import {
     Play,
     Square,
@@ -13,22 +14,30 @@ import {
     Loader2,
     Circle,
     CircleX,
-    CirclePause
+    CirclePause,
+    HeartPulse,
+    ExternalLink,
+    BellRing,
+    FileWarning
 } from 'lucide-react';
-import { cn, formatUptime, getStatusColor } from '@/lib/utils';
+import { cn, formatUptime, getAlertColor, getHealthColor, getStatusColor } from '@/lib/utils';
 import type { ServiceInfo } from '@/lib/types';
 
 interface ServiceCardProps {
     service: ServiceInfo;
     onRefresh?: () => void;
+    /** Whether the card is selected for a bulk action */
+    selected?: boolean;
+    /** Shows a selection checkbox when given */
+    onSelectChange?: (selected: boolean) => void;
 }
 
-export function ServiceCard({ service, onRefresh }: ServiceCardProps) {
+export function ServiceCard({ service, onRefresh, selected = false, onSelectChange }: ServiceCardProps) {
     const [loading, setLoading] = useState<'start' | 'stop' | 'restart' | null>(null);
     const [error, setError] = useState<string | null>(null);
 
     const isRunning = service.status === 'running';
-    const isStopped = service.status === 'stopped' || service.status === 'error';
+    const isStopped = service.status === 'stopped' || service.status === 'error' || service.status === 'crash-loop';
     const isTransitioning = service.status === 'starting' || service.status === 'stopping';
 
     const handleAction = async (action: 'start' | 'stop' | 'restart') => {
@@ -62,6 +71,7 @@ export function ServiceCard({ service, onRefresh }: ServiceCardProps) {
             case 'running':
                 return <Circle className="h-3 w-3 fill-current" />;
             case 'error':
+            case 'crash-loop':
                 return <CircleX className="h-3 w-3" />;
             default:
                 return <CirclePause className="h-3 w-3" />;
@@ -69,24 +79,90 @@ export function ServiceCard({ service, onRefresh }: ServiceCardProps) {
     };
 
     return (
-        <Card className="bg-zinc-900/50 border-zinc-800 hover:border-zinc-700 transition-colors">
+        <Card
+            className={cn(
+                'bg-zinc-900/50 border-zinc-800 hover:border-zinc-700 transition-colors',
+                selected && 'border-zinc-500 hover:border-zinc-500'
+            )}
+        >
             <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                     <div className="space-y-1">
-                        <CardTitle className="text-lg text-zinc-100">
+                        <CardTitle className="flex items-center gap-2 text-lg text-zinc-100">
+                            {onSelectChange && (
+                                <input
+                                    type="checkbox"
+                                    checked={selected}
+                                    onChange={(e) => onSelectChange(e.target.checked)}
+                                    aria-label={`Select ${service.config.name}`}
+                                    className="h-4 w-4 accent-emerald-500"
+                                />
+                            )}
                             {service.config.name}
                         </CardTitle>
                         <CardDescription className="text-zinc-400">
                             {service.config.description || service.config.command}
                         </CardDescription>
+                        {service.config.tags && service.config.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                                {service.config.tags.map((tag) => (
+                                    <Badge key={tag} variant="outline" className="px-1.5 py-0 text-xs text-zinc-400 border-zinc-700">
+                                        {tag}
+                                    </Badge>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex flex-col items-end gap-1.5">
+                        <Badge
+                            variant="outline"
+                            className={cn('flex items-center gap-1.5', getStatusColor(service.status))}
+                        >
+                            {getStatusIcon()}
+                            <span className="capitalize">{loading || service.status}</span>
+                        </Badge>
+                        {service.health && service.status !== 'stopped' && (
+                            <Badge
+                                variant="outline"
+                                className={cn('flex items-center gap-1.5', getHealthColor(service.health))}
+                                title={service.lastProbe?.message}
+                            >
+                                <HeartPulse className="h-3 w-3" />
+                                <span className="capitalize">{service.health}</span>
+                            </Badge>
+                        )}
+                        {service.alertCount > 0 && (
+                            <Link href={`/services/${service.config.id}`}>
+                                <Badge
+                                    variant="outline"
+                                    className={cn('flex items-center gap-1.5', getAlertColor(service.lastAlert?.severity))}
+                                    title={service.lastAlert && `${service.lastAlert.rule}: ${service.lastAlert.line}`}
+                                >
+                                    <BellRing className="h-3 w-3" />
+                                    <span>{service.alertCount} alert{service.alertCount !== 1 ? 's' : ''}</span>
+                                </Badge>
+                            </Link>
+                        )}
+                        {service.removed ? (
+                            <Badge
+                                variant="outline"
+                                className="flex items-center gap-1.5 bg-red-500/20 text-red-400 border-red-500/30"
+                                title="Removed from the config file, stop it to remove it from the dashboard"
+                            >
+                                <FileWarning className="h-3 w-3" />
+                                <span>Removed</span>
+                            </Badge>
+                        ) : service.configOutdated && (
+                            <Badge
+                                variant="outline"
+                                className="flex items-center gap-1.5 bg-amber-500/20 text-amber-400 border-amber-500/30"
+                                title="The definition changed in the config file, restart to apply it"
+                            >
+                                <FileWarning className="h-3 w-3" />
+                                <span>Config outdated</span>
+                            </Badge>
+                        )}
                     </div>
-                    <Badge
-                        variant="outline"
-                        className={cn('flex items-center gap-1.5', getStatusColor(service.status))}
-                    >
-                        {getStatusIcon()}
-                        <span className="capitalize">{loading || service.status}</span>
-                    </Badge>
                 </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -105,7 +181,14 @@ export function ServiceCard({ service, onRefresh }: ServiceCardProps) {
                     {service.pid && (
                         <>
                             <div className="text-zinc-500">PID</div>
-                            <div className="text-zinc-300 font-mono text-xs">{service.pid}</div>
+                            <div className="text-zinc-300 font-mono text-xs">
+                                {service.pid}
+                                {service.adopted && (
+                                    <span className="ml-1.5 font-sans text-zinc-500" title="Started by a previous hub session">
+                                        (adopted)
+                                    </span>
+                                )}
+                            </div>
                         </>
                     )}
 
@@ -115,8 +198,42 @@ export function ServiceCard({ service, onRefresh }: ServiceCardProps) {
                             <div className="text-zinc-300 text-xs">{formatUptime(service.startedAt)}</div>
                         </>
                     )}
+
+                    {service.urls && service.urls.length > 0 && (
+                        <>
+                            <div className="text-zinc-500">Listening</div>
+                            <div className="flex flex-wrap gap-x-2 gap-y-0.5 font-mono text-xs">
+                                {service.urls.map((url) => (
+                                    <a
+                                        key={url}
+                                        href={url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="inline-flex items-center gap-0.5 text-cyan-400 hover:text-cyan-300 hover:underline"
+                                    >
+                                        {url.replace(/^https?:\/\//, '')}
+                                        <ExternalLink className="h-3 w-3" />
+                                    </a>
+                                ))}
+                            </div>
+                        </>
+                    )}
+
+                    {service.restartCount > 0 && (
+                        <>
+                            <div className="text-zinc-500">Restarts</div>
+                            <div className="text-zinc-300 text-xs">{service.restartCount}</div>
+                        </>
+                    )}
                 </div>
 
+                {/* Resource usage */}
+                <ServiceMetrics
+                    serviceId={service.config.id}
+                    active={service.status === 'running' || service.status === 'starting'}
+                    compact
+                />
+
                 {/* Error display */}
                 {(error || service.error) && (
                     <div className="p-2 rounded bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { ServiceEnvResponse } from '@/lib/types';
+
+interface ServiceEnvProps {
+    serviceId: string;
+    /** Changes whenever the service's definition does, to resolve it again */
+    configKey: string;
+}
+
+const SOURCE_COLORS: Record<string, string> = {
+    process: 'text-zinc-600',
+    hub: 'text-zinc-500',
+    config: 'text-sky-400',
+};
+
+/**
+ * Effective environment of a service as its next start would see it, with
+ * where each variable comes from. Variables inherited from the hub are hidden
+ * unless asked for.
+ */
+export function ServiceEnv({ serviceId, configKey }: ServiceEnvProps) {
+    const [resolved, setResolved] = useState<ServiceEnvResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [showInherited, setShowInherited] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const response = await fetch(`/api/services/${serviceId}/env`);
+                const data = await response.json();
+
+                if (cancelled) return;
+                if (data.success) {
+                    setResolved(data.data);
+                    setError(null);
+                } else {
+                    setError(data.error || 'Failed to resolve environment');
+                }
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Request failed');
+            }
+        };
+
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [serviceId, configKey]);
+
+    if (error) {
+        return <p className="text-sm text-red-400">{error}</p>;
+    }
+    if (!resolved) {
+        return <p className="text-sm text-zinc-500">Resolving…</p>;
+    }
+
+    const variables = showInherited ? resolved.env : resolved.env.filter((v) => v.source !== 'process');
+
+    return (
+        <div className="space-y-3 text-xs">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                <dt className="text-zinc-500">Command</dt>
+                <dd className="text-zinc-300 font-mono break-all">{resolved.command}</dd>
+                <dt className="text-zinc-500">Directory</dt>
+                <dd className="text-zinc-300 font-mono break-all">{resolved.cwd}</dd>
+            </dl>
+
+            {resolved.warnings.map((warning, i) => (
+                <p key={i} className="text-amber-400">{warning}</p>
+            ))}
+
+            <div className="max-h-72 overflow-y-auto rounded-md border border-zinc-800 divide-y divide-zinc-800 font-mono">
+                {variables.map((variable) => (
+                    <div key={variable.name} className="flex items-baseline gap-3 px-2 py-1">
+                        <span className="text-zinc-300 whitespace-nowrap">{variable.name}</span>
+                        <span className="min-w-0 flex-1 truncate text-zinc-400" title={variable.value}>
+                            {variable.value}
+                        </span>
+                        <span className={cn('whitespace-nowrap font-sans', SOURCE_COLORS[variable.source] ?? 'text-emerald-400')}>
+                            {variable.source}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-zinc-400">
+                <input
+                    type="checkbox"
+                    checked={showInherited}
+                    onChange={(e) => setShowInherited(e.target.checked)}
+                />
+                Show variables inherited from the hub
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, X } from 'lucide-react';
+import type { ServiceConfig, ServiceInfo } from '@/lib/types';
+
+interface ServiceFormProps {
+    /** Definition being edited, omitted to create a new service */
+    service?: ServiceConfig;
+    onSaved: (service: ServiceInfo) => void;
+    onCancel: () => void;
+}
+
+const inputClassName = 'w-full h-8 px-2 rounded-md bg-zinc-950 border border-zinc-800 text-sm text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600';
+
+/**
+ * Derive an id from a service name, e.g. "API Server" -> "api-server"
+ */
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function formatEnv(env: Record<string, string> | undefined): string {
+    return Object.entries(env ?? {}).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+/**
+ * Parse `KEY=value` lines, skipping blank lines and `#` comments
+ */
+function parseEnv(text: string): Record<string, string> | undefined {
+    const env: Record<string, string> = {};
+
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+
+        const eq = trimmed.indexOf('=');
+        if (eq <= 0) {
+            throw new Error(`Invalid environment line: ${trimmed}`);
+        }
+        env[trimmed.slice(0, eq).trim()] = trimmed.slice(eq + 1);
+    }
+
+    return Object.keys(env).length > 0 ? env : undefined;
+}
+
+/**
+ * Parse a comma separated list of tags
+ */
+function parseTags(text: string): string[] | undefined {
+    const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+    return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Modal form to create a service or edit the basics of an existing one.
+ * Fields the form does not show are kept as they are in services.json.
+ */
+export function ServiceForm({ service, onSaved, onCancel }: ServiceFormProps) {
+    const isEdit = !!service;
+    const [name, setName] = useState(service?.name ?? '');
+    const [id, setId] = useState(service?.id ?? '');
+    const [command, setCommand] = useState(service?.command ?? '');
+    const [cwd, setCwd] = useState(service?.cwd ?? '');
+    const [env, setEnv] = useState(formatEnv(service?.env));
+    const [description, setDescription] = useState(service?.description ?? '');
+    const [group, setGroup] = useState(service?.group ?? '');
+    const [tags, setTags] = useState(service?.tags?.join(', ') ?? '');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (config: ServiceConfig, restart = false): Promise<void> => {
+        const url = isEdit
+            ? `/api/services/${service.id}${restart ? '?restart=true' : ''}`
+            : '/api/services';
+        const response = await fetch(url, {
+            method: isEdit ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(config),
+        });
+        const data = await response.json();
+
+        if (response.status === 409 && isEdit && !restart) {
+            if (confirm(`'${service.name}' is running. Restart it with the new definition?`)) {
+                return save(config, true);
+            }
+            return;
+        }
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to save service');
+        }
+        onSaved(data.data.service);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError(null);
+
+        try {
+            await save({
+                ...service,
+                id: isEdit ? service.id : id || slugify(name),
+                name,
+                command,
+                cwd,
+                env: parseEnv(env),
+                description: description || undefined,
+                group: group.trim() || undefined,
+                tags: parseTags(tags),
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Request failed');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 p-4">
+            <Card className="w-full max-w-lg bg-zinc-900 border-zinc-800">
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle className="text-zinc-100">
+                        {isEdit ? `Edit ${service.name}` : 'New Service'}
+                    </CardTitle>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="p-1 rounded-md text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                    >
+                        <X className="h-4 w-4" />
+                    </button>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+                        <label className="block space-y-1">
+                            <span className="text-zinc-400">Name</span>
+                            <input
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="API Server"
+                                required
+                                className={inputClassName}
+                            />
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-zinc-400">ID</span>
+                            <input
+                                value={id}
+                                onChange={(e) => setId(e.target.value)}
+                                placeholder={slugify(name) || 'api-server'}
+                                disabled={isEdit}
+                                pattern="[\w-]+"
+                                className={`${inputClassName} font-mono disabled:opacity-60`}
+                            />
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-zinc-400">Command</span>
+                            <input
+                                value={command}
+                                onChange={(e) => setCommand(e.target.value)}
+                                placeholder="npm run dev"
+                                required
+                                className={`${inputClassName} font-mono`}
+                            />
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-zinc-400">Working directory</span>
+                            <input
+                                value={cwd}
+                                onChange={(e) => setCwd(e.target.value)}
+                                placeholder="/path/to/project"
+                                required
+                                className={`${inputClassName} font-mono`}
+                            />
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-zinc-400">Environment</span>
+                            <textarea
+                                value={env}
+                                onChange={(e) => setEnv(e.target.value)}
+                                placeholder={'PORT=3000\nNODE_ENV=development'}
+                                rows={3}
+                                className={`${inputClassName} h-auto py-1.5 font-mono`}
+                            />
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-zinc-400">Description</span>
+                            <input
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block space-y-1">
+                                <span className="text-zinc-400">Group</span>
+                                <input
+                                    value={group}
+                                    onChange={(e) => setGroup(e.target.value)}
+                                    placeholder="backend"
+                                    className={inputClassName}
+                                />
+                            </label>
+                            <label className="block space-y-1">
+                                <span className="text-zinc-400">Tags</span>
+                                <input
+                                    value={tags}
+                                    onChange={(e) => setTags(e.target.value)}
+                                    placeholder="python, worker"
+                                    className={inputClassName}
+                                />
+                            </label>
+                        </div>
+
+                        {error && (
+                            <div className="p-2 rounded-md bg-red-500/10 border border-red-500/20 text-red-400 text-xs">
+                                {error}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={onCancel}
+                                className="border-zinc-700 hover:bg-zinc-800"
+                            >
+                                Cancel
+                            </Button>
+                            <Button type="submit" disabled={saving}>
+                                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {isEdit ? 'Save' : 'Create'}
+                            </Button>
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
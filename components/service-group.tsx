@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { ServiceCard } from './service-card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronDown, ChevronRight, Loader2, Play, RotateCcw, Square } from 'lucide-react';
+import { cn, getStatusColor } from '@/lib/utils';
+import type { ServiceAction, ServiceActionResult, ServiceInfo } from '@/lib/types';
+
+interface ServiceGroupProps {
+    /** Group name, or undefined for services without a group */
+    name?: string;
+    services: ServiceInfo[];
+    onRefresh: () => void;
+    /** Ids of the services selected for a bulk action */
+    selected: Set<string>;
+    onSelectChange: (id: string, selected: boolean) => void;
+}
+
+type GroupStatus = 'running' | 'partial' | 'starting' | 'stopping' | 'error' | 'stopped';
+
+/**
+ * Status of a group as a whole: error if any member failed, starting or
+ * stopping while a member is, running if all are, partial if only some are
+ */
+function getGroupStatus(services: ServiceInfo[]): GroupStatus {
+    if (services.some(s => s.status === 'error' || s.status === 'crash-loop')) return 'error';
+    if (services.some(s => s.status === 'starting')) return 'starting';
+    if (services.some(s => s.status === 'stopping')) return 'stopping';
+    if (services.every(s => s.status === 'running')) return 'running';
+    if (services.some(s => s.status === 'running')) return 'partial';
+    return 'stopped';
+}
+
+function getGroupStatusColor(status: GroupStatus): string {
+    return status === 'partial'
+        ? 'bg-green-500/10 text-green-400/80 border-green-500/20'
+        : getStatusColor(status);
+}
+
+/**
+ * Collapsible section of the service list with actions on all its services
+ */
+export function ServiceGroup({ name, services, onRefresh, selected, onSelectChange }: ServiceGroupProps) {
+    const [collapsed, setCollapsed] = useState(false);
+    const [loading, setLoading] = useState<ServiceAction | null>(null);
+    const [failures, setFailures] = useState<ServiceActionResult[]>([]);
+
+    const runningCount = services.filter(s => s.status === 'running').length;
+
+    const handleAction = async (action: ServiceAction) => {
+        if (!name) return;
+
+        setLoading(action);
+        setFailures([]);
+
+        try {
+            const response = await fetch(`/api/groups/${encodeURIComponent(name)}/${action}`, {
+                method: 'POST',
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setFailures(data.data.results.filter((result: ServiceActionResult) => !result.success));
+            } else {
+                setFailures([{ id: name, success: false, error: data.error || 'Action failed' }]);
+            }
+
+            onRefresh();
+        } catch (err) {
+            setFailures([{ id: name, success: false, error: err instanceof Error ? err.message : 'Request failed' }]);
+        } finally {
+            setLoading(null);
+        }
+    };
+
+    return (
+        <section className="space-y-3">
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={() => setCollapsed(!collapsed)}
+                    className="flex items-center gap-1.5 text-zinc-200 hover:text-zinc-100"
+                >
+                    {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    <span className={cn('font-medium', !name && 'text-zinc-400')}>{name ?? 'Ungrouped'}</span>
+                </button>
+                <Badge variant="outline" className={getGroupStatusColor(getGroupStatus(services))}>
+                    {runningCount}/{services.length} running
+                </Badge>
+
+                {name && (
+                    <div className="ml-auto flex items-center gap-1">
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleAction('start')}
+                            disabled={!!loading || runningCount === services.length}
+                            className="h-7 text-zinc-400 hover:text-green-500"
+                        >
+                            {loading === 'start' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                            Start
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleAction('stop')}
+                            disabled={!!loading}
+                            className="h-7 text-zinc-400 hover:text-red-500"
+                        >
+                            {loading === 'stop' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Square className="h-4 w-4 mr-1" />}
+                            Stop
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleAction('restart')}
+                            disabled={!!loading}
+                            className="h-7 text-zinc-400 hover:text-zinc-100"
+                        >
+                            {loading === 'restart' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                            Restart
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {failures.length > 0 && (
+                <div className="p-2 rounded bg-red-500/10 border border-red-500/20 text-red-400 text-sm space-y-0.5">
+                    {failures.map((failure) => (
+                        <p key={failure.id}>
+                            <span className="font-mono">{failure.id}</span>: {failure.error}
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            {!collapsed && (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                    {services.map((service) => (
+                        <ServiceCard
+                            key={service.config.id}
+                            service={service}
+                            onRefresh={onRefresh}
+                            selected={selected.has(service.config.id)}
+                            onSelectChange={(value) => onSelectChange(service.config.id, value)}
+                        />
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
@@ -2,9 +2,15 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { ServiceCard } from './service-card';
+import { ServiceGroup } from './service-group';
+import { BulkActions } from './bulk-actions';
+import { ServiceForm } from './service-form';
+import { ConfigIssues } from './config-issues';
+import { ImportServices } from './import-services';
 import { Button } from '@/components/ui/button';
-import { RefreshCw, Loader2, ServerOff } from 'lucide-react';
-import type { ServiceInfo } from '@/lib/types';
+import { useHubEvents } from '@/lib/hub-events';
+import { RefreshCw, Loader2, ServerOff, Plus, FileDiff, FileInput, X } from 'lucide-react';
+import type { ConfigChangeEvent, ConfigIssue, ServiceInfo } from '@/lib/types';
 
 interface ServiceListProps {
     initialServices?: ServiceInfo[];
@@ -14,20 +20,36 @@ export function ServiceList({ initialServices = [] }: ServiceListProps) {
     const [services, setServices] = useState<ServiceInfo[]>(initialServices);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [creating, setCreating] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [configIssues, setConfigIssues] = useState<ConfigIssue[]>([]);
+    const [configFile, setConfigFile] = useState('services.json');
+    // Last change to the config file, until dismissed
+    const [configChange, setConfigChange] = useState<ConfigChangeEvent | null>(null);
+    // Services checked for a bulk action
+    const [selected, setSelected] = useState<Set<string>>(new Set());
 
     const fetchServices = useCallback(async () => {
         setLoading(true);
         setError(null);
 
         try {
-            const response = await fetch('/api/services');
+            const [response, validation] = await Promise.all([
+                fetch('/api/services'),
+                fetch('/api/config/validate'),
+            ]);
             const data = await response.json();
+            const validationData = await validation.json();
 
             if (data.success) {
                 setServices(data.data.services);
             } else {
                 setError(data.error || 'Failed to fetch services');
             }
+            if (validationData.success) {
+                setConfigIssues(validationData.data.issues);
+                setConfigFile(validationData.data.file);
+            }
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Request failed');
         } finally {
@@ -42,6 +64,32 @@ export function ServiceList({ initialServices = [] }: ServiceListProps) {
         return () => clearInterval(interval);
     }, [fetchServices]);
 
+    // Refresh as soon as the config file changes or profiles are switched instead of on the next poll
+    useHubEvents((event) => {
+        if (event.type === 'config') {
+            setConfigChange(event as unknown as ConfigChangeEvent);
+            fetchServices();
+        } else if (event.type === 'profile') {
+            fetchServices();
+        }
+    });
+
+    const setServiceSelected = (id: string, value: boolean) => {
+        setSelected((current) => {
+            const next = new Set(current);
+            if (value) {
+                next.add(id);
+            } else {
+                next.delete(id);
+            }
+            return next;
+        });
+    };
+
+    // Services removed since they were selected drop out of the selection
+    const selectedIds = services.map((service) => service.config.id).filter((id) => selected.has(id));
+    const groups = [...new Set(services.map((service) => service.config.group).filter((group) => group !== undefined))].sort();
+
     return (
         <div className="space-y-6">
             {/* Header */}
@@ -52,22 +100,86 @@ export function ServiceList({ initialServices = [] }: ServiceListProps) {
                         {services.length} service{services.length !== 1 ? 's' : ''} configured
                     </p>
                 </div>
-                <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={fetchServices}
-                    disabled={loading}
-                    className="border-zinc-700 hover:bg-zinc-800"
-                >
-                    {loading ? (
-                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                    ) : (
-                        <RefreshCw className="h-4 w-4 mr-1" />
-                    )}
-                    Refresh
-                </Button>
+                <div className="flex items-center gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setImporting(true)}
+                        className="border-zinc-700 hover:bg-zinc-800"
+                    >
+                        <FileInput className="h-4 w-4 mr-1" />
+                        Import
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCreating(true)}
+                        className="border-zinc-700 hover:bg-zinc-800"
+                    >
+                        <Plus className="h-4 w-4 mr-1" />
+                        New Service
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={fetchServices}
+                        disabled={loading}
+                        className="border-zinc-700 hover:bg-zinc-800"
+                    >
+                        {loading ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                        )}
+                        Refresh
+                    </Button>
+                </div>
             </div>
 
+            <ConfigIssues file={configFile} issues={configIssues} />
+
+            {configChange && (
+                <div className="flex items-start gap-2 p-4 rounded-lg bg-sky-500/10 border border-sky-500/20 text-sm text-sky-400">
+                    <FileDiff className="h-4 w-4 mt-0.5 shrink-0" />
+                    <div className="flex-1 space-y-0.5">
+                        <p className="font-medium">
+                            {configFile} changed{configChange.source === 'api' ? ' from the dashboard' : ''}
+                        </p>
+                        {(['added', 'removed', 'changed', 'restarted', 'stopped'] as const)
+                            .filter((key) => configChange[key].length > 0)
+                            .map((key) => (
+                                <p key={key} className="text-zinc-400">
+                                    <span className="capitalize">{key}</span>:{' '}
+                                    <span className="font-mono text-zinc-300">{configChange[key].join(', ')}</span>
+                                </p>
+                            ))}
+                    </div>
+                    <button
+                        onClick={() => setConfigChange(null)}
+                        className="p-1 rounded-md text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                    >
+                        <X className="h-3 w-3" />
+                    </button>
+                </div>
+            )}
+
+            {importing && (
+                <ImportServices
+                    onImported={fetchServices}
+                    onClose={() => setImporting(false)}
+                />
+            )}
+
+            {creating && (
+                <ServiceForm
+                    onSaved={() => {
+                        setCreating(false);
+                        fetchServices();
+                    }}
+                    onCancel={() => setCreating(false)}
+                />
+            )}
+
             {/* Error */}
             {error && (
                 <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400">
@@ -75,14 +187,47 @@ export function ServiceList({ initialServices = [] }: ServiceListProps) {
                 </div>
             )}
 
-            {/* Services grid */}
-            {services.length > 0 ? (
+            {services.length > 0 && (
+                <BulkActions
+                    selected={selectedIds}
+                    total={services.length}
+                    onSelectAll={() => setSelected(new Set(services.map((service) => service.config.id)))}
+                    onClear={() => setSelected(new Set())}
+                    onDone={fetchServices}
+                />
+            )}
+
+            {/* Services, in sections once any service has a group */}
+            {groups.length > 0 ? (
+                <div className="space-y-8">
+                    {groups.map((group) => (
+                        <ServiceGroup
+                            key={group}
+                            name={group}
+                            services={services.filter((service) => service.config.group === group)}
+                            onRefresh={fetchServices}
+                            selected={selected}
+                            onSelectChange={setServiceSelected}
+                        />
+                    ))}
+                    {services.some((service) => !service.config.group) && (
+                        <ServiceGroup
+                            services={services.filter((service) => !service.config.group)}
+                            onRefresh={fetchServices}
+                            selected={selected}
+                            onSelectChange={setServiceSelected}
+                        />
+                    )}
+                </div>
+            ) : services.length > 0 ? (
                 <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
                     {services.map((service) => (
                         <ServiceCard
                             key={service.config.id}
                             service={service}
                             onRefresh={fetchServices}
+                            selected={selected.has(service.config.id)}
+                            onSelectChange={(value) => setServiceSelected(service.config.id, value)}
                         />
                     ))}
                 </div>
@@ -91,8 +236,17 @@ export function ServiceList({ initialServices = [] }: ServiceListProps) {
                     <ServerOff className="h-12 w-12 mb-4" />
                     <p className="text-lg font-medium">No services configured</p>
                     <p className="text-sm mt-1">
-                        Add services to <code className="text-zinc-400">services.json</code> to get started
+                        Create a service or import a Procfile to get started
                     </p>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCreating(true)}
+                        className="mt-4 border-zinc-700 hover:bg-zinc-800"
+                    >
+                        <Plus className="h-4 w-4 mr-1" />
+                        New Service
+                    </Button>
                 </div>
             )}
         </div>
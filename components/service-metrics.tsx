@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Sparkline } from './sparkline';
+import { cn, formatBytes } from '@/lib/utils';
+import type { MetricsSample } from '@/lib/types';
+
+interface ServiceMetricsProps {
+    serviceId: string;
+    /** Only poll while the service is alive */
+    active: boolean;
+    /** Compact layout for the service card */
+    compact?: boolean;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Live CPU and memory sparklines for a service's process tree
+ */
+export function ServiceMetrics({ serviceId, active, compact = false }: ServiceMetricsProps) {
+    const [samples, setSamples] = useState<MetricsSample[]>([]);
+    const [supported, setSupported] = useState(true);
+
+    useEffect(() => {
+        if (!active) return;
+
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const response = await fetch(`/api/services/${serviceId}/metrics`);
+                const data = await response.json();
+
+                if (!cancelled && data.success) {
+                    setSamples(data.data.samples);
+                    setSupported(data.data.supported);
+                }
+            } catch {
+                // Keep showing the last known samples
+            }
+        };
+
+        load();
+        const interval = setInterval(load, POLL_INTERVAL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [serviceId, active]);
+
+    if (!active || !supported) return null;
+
+    const latest = samples[samples.length - 1];
+
+    return (
+        <div className={cn('grid grid-cols-2', compact ? 'gap-3' : 'gap-4')}>
+            <div className="min-w-0">
+                <div className="flex items-baseline justify-between text-xs">
+                    <span className="text-zinc-500">CPU</span>
+                    <span className="text-zinc-300 font-mono">
+                        {latest ? `${latest.cpuPercent.toFixed(1)}%` : '–'}
+                    </span>
+                </div>
+                <Sparkline
+                    values={samples.map((s) => s.cpuPercent)}
+                    max={100}
+                    className={cn('text-cyan-400', compact ? 'h-6' : 'h-10')}
+                />
+            </div>
+            <div className="min-w-0">
+                <div className="flex items-baseline justify-between text-xs">
+                    <span className="text-zinc-500">Memory</span>
+                    <span className="text-zinc-300 font-mono">
+                        {latest ? formatBytes(latest.rssBytes) : '–'}
+                    </span>
+                </div>
+                <Sparkline
+                    values={samples.map((s) => s.rssBytes)}
+                    className={cn('text-emerald-400', compact ? 'h-6' : 'h-10')}
+                />
+            </div>
+            {!compact && latest && (
+                <p className="col-span-2 text-xs text-zinc-500">
+                    {latest.processCount} process{latest.processCount !== 1 ? 'es' : ''} in tree
+                </p>
+            )}
+        </div>
+    );
+}
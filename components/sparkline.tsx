@@ -0,0 +1,43 @@
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+    values: number[];
+    className?: string;
+    /** Fixed upper bound; defaults to the largest value */
+    max?: number;
+}
+
+/**
+ * Minimal SVG line chart, stretched to fill its container
+ */
+export function Sparkline({ values, className, max }: SparklineProps) {
+    if (values.length < 2) {
+        return <div className={cn('h-8', className)} />;
+    }
+
+    const upper = Math.max(max ?? 0, ...values) || 1;
+    const points = values
+        .map((value, i) => {
+            const x = (i / (values.length - 1)) * 100;
+            const y = 100 - (value / upper) * 100;
+            return `${x.toFixed(2)},${y.toFixed(2)}`;
+        })
+        .join(' ');
+
+    return (
+        <svg
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            className={cn('h-8 w-full overflow-visible', className)}
+        >
+            <polygon points={`0,100 ${points} 100,100`} className="fill-current opacity-15" />
+            <polyline
+                points={points}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+            />
+        </svg>
+    );
+}
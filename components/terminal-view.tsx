@@ -5,24 +5,129 @@ import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import '@xterm/xterm/css/xterm.css';
+import type { LogEntry, LogLevel } from '@/lib/types';
 
 interface TerminalViewProps {
     serviceId: string;
     className?: string;
+    /** Forward keystrokes and terminal size to the service (pty services only) */
+    interactive?: boolean;
+    /** Show the stored output of an earlier run instead of the live stream */
+    runId?: string;
+    /** Log query (`grep`, `stream`, ...) passed to the logs API, empty values are left out */
+    filter?: Record<string, string | undefined>;
 }
 
-export function TerminalView({ serviceId, className = '' }: TerminalViewProps) {
+// Replaying the whole buffer of a noisy service floods the browser
+const INITIAL_TAIL = 1000;
+
+/**
+ * Build the query string for a logs request
+ */
+function logQuery(filter: Record<string, string | undefined> = {}): string {
+    const params = new URLSearchParams({ tail: String(INITIAL_TAIL) });
+    for (const [key, value] of Object.entries(filter)) {
+        if (value) params.set(key, value);
+    }
+    return params.toString();
+}
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+    trace: '\x1b[90m', // dim
+    debug: '\x1b[36m', // cyan
+    info: '\x1b[32m', // green
+    warn: '\x1b[33m', // yellow
+    error: '\x1b[31m', // red
+    fatal: '\x1b[1;31m', // bold red
+};
+
+/**
+ * Render a parsed line as `LEVEL message key=value ...`
+ */
+function formatStructured(entry: LogEntry): string {
+    const level = entry.level
+        ? `${LEVEL_COLORS[entry.level]}${entry.level.toUpperCase().padEnd(5)}\x1b[0m `
+        : '';
+    const fields = Object.entries(entry.fields ?? {})
+        .map(([key, value]) => ` \x1b[90m${key}=\x1b[0m${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join('');
+
+    return `${level}${entry.message}${fields}${entry.partial ? '' : '\n'}`;
+}
+
+/**
+ * Write a line of service output to the terminal. Entries carry their own
+ * newline, a partial line is continued by the next entry.
+ */
+function writeOutput(terminal: Terminal, entry: LogEntry, raw: boolean) {
+    if (raw && entry.message === undefined) {
+        // Pty output already uses CRLF and cursor movement, write it untouched
+        terminal.write(entry.data);
+        return;
+    }
+
+    // Structured lines are pretty-printed, anything else is written as the service produced it
+    const data = entry.message !== undefined ? formatStructured(entry) : entry.data;
+
+    // Piped output uses bare LF, which xterm treats as a line feed without carriage return
+    terminal.write(data.replace(/\r?\n/g, '\r\n'));
+}
+
+export function TerminalView({ serviceId, className = '', interactive = false, runId, filter }: TerminalViewProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const terminalRef = useRef<Terminal | null>(null);
     const fitAddonRef = useRef<FitAddon | null>(null);
     const eventSourceRef = useRef<EventSource | null>(null);
+    // Sequence id of the last entry received, to resume after a disconnect
+    const lastSeqRef = useRef<number | null>(null);
+    const interactiveRef = useRef(interactive);
+    const query = logQuery(filter);
 
-    const connectToLogs = useCallback(() => {
+    useEffect(() => {
+        interactiveRef.current = interactive;
+    }, [interactive]);
+
+    const loadRunLogs = useCallback(async (runId: string) => {
+        try {
+            const response = await fetch(`/api/services/${serviceId}/runs/${runId}/logs?${query}`);
+            const data = await response.json();
+            const terminal = terminalRef.current;
+            if (!terminal) return;
+
+            if (!data.success) {
+                terminal.writeln(`\x1b[91m[${data.error}]\x1b[0m`);
+                return;
+            }
+            if (data.data.truncated) {
+                terminal.writeln('\x1b[90m[Earlier output of this run is not shown]\x1b[0m');
+            }
+            if (data.data.entries.length === 0) {
+                terminal.writeln('\x1b[90m[No matching output]\x1b[0m');
+            }
+            for (const entry of data.data.entries) {
+                writeOutput(terminal, entry, interactiveRef.current);
+            }
+        } catch (err) {
+            console.error('Failed to load run logs:', err);
+        }
+    }, [serviceId, query]);
+
+    const connectToLogs = useCallback((resume = false) => {
         if (eventSourceRef.current) {
             eventSourceRef.current.close();
+            eventSourceRef.current = null;
         }
 
-        const eventSource = new EventSource(`/api/services/${serviceId}/logs`);
+        if (runId) {
+            loadRunLogs(runId);
+            return;
+        }
+
+        if (!resume) {
+            lastSeqRef.current = null;
+        }
+        const resumeQuery = lastSeqRef.current !== null ? `&lastEventId=${lastSeqRef.current}` : '';
+        const eventSource = new EventSource(`/api/services/${serviceId}/logs?${query}${resumeQuery}`);
         eventSourceRef.current = eventSource;
 
         eventSource.onmessage = (event) => {
@@ -30,16 +135,8 @@ export function TerminalView({ serviceId, className = '' }: TerminalViewProps) {
                 const data = JSON.parse(event.data);
 
                 if (data.type === 'log' && terminalRef.current) {
-                    // Write raw data - ANSI codes are already included
-                    const lines = data.data.split('\n');
-                    for (let i = 0; i < lines.length; i++) {
-                        if (lines[i]) {
-                            terminalRef.current.writeln(lines[i]);
-                        } else if (i < lines.length - 1) {
-                            // Empty line in the middle
-                            terminalRef.current.writeln('');
-                        }
-                    }
+                    lastSeqRef.current = data.seq;
+                    writeOutput(terminalRef.current, data, interactiveRef.current);
                 } else if (data.type === 'status') {
                     // Show status changes in terminal
                     const statusColors: Record<string, string> = {
@@ -48,11 +145,20 @@ export function TerminalView({ serviceId, className = '' }: TerminalViewProps) {
                         error: '\x1b[91m', // red
                         starting: '\x1b[93m', // yellow
                         stopping: '\x1b[93m', // yellow
+                        'crash-loop': '\x1b[91m', // red
                     };
                     const color = statusColors[data.status] || '\x1b[0m';
                     terminalRef.current?.writeln(
-                        `${color}[STATUS] Service ${data.status}${data.pid ? ` (PID: ${data.pid})` : ''}\x1b[0m`
+                        `${color}[STATUS] Service ${data.status}${data.pid ? ` (PID: ${data.pid})` : ''}${data.health ? ` [${data.health}]` : ''}\x1b[0m`
                     );
+                    if (data.restartIn !== undefined) {
+                        terminalRef.current?.writeln(
+                            `\x1b[93m[STATUS] Restarting in ${(data.restartIn / 1000).toFixed(1)}s (attempt ${data.attempt}/${data.maxRestarts})\x1b[0m`
+                        );
+                    }
+                } else if (data.type === 'alert') {
+                    const color = data.severity === 'critical' ? '\x1b[1;31m' : data.severity === 'warning' ? '\x1b[93m' : '\x1b[96m';
+                    terminalRef.current?.writeln(`${color}[ALERT] ${data.rule} (${data.severity})\x1b[0m`);
                 } else if (data.type === 'connected') {
                     terminalRef.current?.writeln('\x1b[90m[Connected to log stream]\x1b[0m');
                 }
@@ -66,11 +172,11 @@ export function TerminalView({ serviceId, className = '' }: TerminalViewProps) {
             setTimeout(() => {
                 if (eventSourceRef.current === eventSource) {
                     terminalRef.current?.writeln('\x1b[91m[Disconnected, reconnecting...]\x1b[0m');
-                    connectToLogs();
+                    connectToLogs(true);
                 }
             }, 2000);
         };
-    }, [serviceId]);
+    }, [serviceId, runId, query, loadRunLogs]);
 
     useEffect(() => {
         if (!containerRef.current || terminalRef.current) return;
@@ -79,7 +185,7 @@ export function TerminalView({ serviceId, className = '' }: TerminalViewProps) {
         const terminal = new Terminal({
             cursorBlink: false,
             cursorStyle: 'bar',
-            disableStdin: true, // Read-only terminal for logs
+            disableStdin: true, // Read-only unless the service runs under a pty
             scrollback: 10000,
             fontFamily: 'Menlo, Monaco, "Courier New", monospace',
             fontSize: 13,
@@ -126,25 +232,58 @@ export function TerminalView({ serviceId, className = '' }: TerminalViewProps) {
         });
         resizeObserver.observe(containerRef.current);
 
-        // Connect to SSE stream
-        connectToLogs();
-
         return () => {
             resizeObserver.disconnect();
-            eventSourceRef.current?.close();
             terminal.dispose();
             terminalRef.current = null;
             fitAddonRef.current = null;
         };
-    }, [connectToLogs]);
+    }, []);
 
-    // Reconnect when serviceId changes
+    // Forward input and size changes to pty services
     useEffect(() => {
-        if (terminalRef.current) {
-            terminalRef.current.clear();
-            connectToLogs();
-        }
-    }, [serviceId, connectToLogs]);
+        const terminal = terminalRef.current;
+        if (!terminal) return;
+
+        // A stored run is read-only
+        const live = interactive && !runId;
+        terminal.options.disableStdin = !live;
+        terminal.options.cursorBlink = live;
+        if (!live) return;
+
+        // Chain requests so keystrokes arrive in the order they were typed
+        let queue = Promise.resolve();
+        const send = (endpoint: 'input' | 'resize', body: object) => {
+            queue = queue
+                .then(() => fetch(`/api/services/${serviceId}/${endpoint}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body),
+                }))
+                .then(() => undefined, () => undefined);
+        };
+
+        const dataListener = terminal.onData((data) => send('input', { data }));
+        const resizeListener = terminal.onResize(({ cols, rows }) => send('resize', { cols, rows }));
+        send('resize', { cols: terminal.cols, rows: terminal.rows });
+
+        return () => {
+            dataListener.dispose();
+            resizeListener.dispose();
+        };
+    }, [interactive, serviceId, runId]);
+
+    // Connect to SSE stream, and start over when serviceId, runId or the query changes.
+    // The terminal is kept so the pty input listeners above stay attached.
+    useEffect(() => {
+        terminalRef.current?.reset();
+        connectToLogs();
+
+        return () => {
+            eventSourceRef.current?.close();
+            eventSourceRef.current = null;
+        };
+    }, [connectToLogs]);
 
     return (
         <div
@@ -0,0 +1,143 @@
+// CSI sequences (colors, cursor movement), OSC sequences (titles, hyperlinks) and two-byte escapes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/**
+ * Remove ANSI escape sequences from terminal output
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+// Same palette as the dashboard terminal
+const ANSI_COLORS = [
+    '#09090b', '#ef4444', '#22c55e', '#eab308', '#3b82f6', '#a855f7', '#06b6d4', '#fafafa',
+    '#71717a', '#f87171', '#4ade80', '#facc15', '#60a5fa', '#c084fc', '#22d3ee', '#ffffff',
+];
+
+interface SgrState {
+    fg?: string;
+    bg?: string;
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+/**
+ * Resolve an xterm 256-color index to a hex color (internal)
+ */
+function color256(index: number): string {
+    if (index < 16) return ANSI_COLORS[index];
+
+    if (index < 232) {
+        const steps = [0, 95, 135, 175, 215, 255];
+        const n = index - 16;
+        return rgb(steps[Math.floor(n / 36)], steps[Math.floor(n / 6) % 6], steps[n % 6]);
+    }
+
+    const gray = 8 + (index - 232) * 10;
+    return rgb(gray, gray, gray);
+}
+
+/**
+ * Format color components as hex (internal)
+ */
+function rgb(r: number, g: number, b: number): string {
+    return '#' + [r, g, b].map(c => Math.max(0, Math.min(255, c)).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Apply the parameters of one SGR sequence (`ESC[...m`) to the state (internal)
+ */
+function applySgr(state: SgrState, params: number[]): SgrState {
+    let next = { ...state };
+
+    for (let i = 0; i < params.length; i++) {
+        const code = params[i];
+
+        if (code === 0) {
+            next = {};
+        } else if (code === 1) next.bold = true;
+        else if (code === 2) next.dim = true;
+        else if (code === 3) next.italic = true;
+        else if (code === 4) next.underline = true;
+        else if (code === 22) next.bold = next.dim = false;
+        else if (code === 23) next.italic = false;
+        else if (code === 24) next.underline = false;
+        else if (code >= 30 && code <= 37) next.fg = ANSI_COLORS[code - 30];
+        else if (code >= 90 && code <= 97) next.fg = ANSI_COLORS[code - 90 + 8];
+        else if (code >= 40 && code <= 47) next.bg = ANSI_COLORS[code - 40];
+        else if (code >= 100 && code <= 107) next.bg = ANSI_COLORS[code - 100 + 8];
+        else if (code === 39) next.fg = undefined;
+        else if (code === 49) next.bg = undefined;
+        else if (code === 38 || code === 48) {
+            // Extended colors: 38;5;n or 38;2;r;g;b
+            let color: string | undefined;
+            if (params[i + 1] === 5) {
+                color = color256(params[i + 2] ?? 0);
+                i += 2;
+            } else if (params[i + 1] === 2) {
+                color = rgb(params[i + 2] ?? 0, params[i + 3] ?? 0, params[i + 4] ?? 0);
+                i += 4;
+            }
+            if (code === 38) next.fg = color;
+            else next.bg = color;
+        }
+    }
+
+    return next;
+}
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline CSS for the current SGR state (internal)
+ */
+function sgrStyle(state: SgrState): string {
+    const styles: string[] = [];
+    if (state.fg) styles.push(`color:${state.fg}`);
+    if (state.bg) styles.push(`background:${state.bg}`);
+    if (state.bold) styles.push('font-weight:bold');
+    if (state.dim) styles.push('opacity:0.6');
+    if (state.italic) styles.push('font-style:italic');
+    if (state.underline) styles.push('text-decoration:underline');
+    return styles.join(';');
+}
+
+/**
+ * Convert terminal output to HTML, turning SGR colors and styles into inline
+ * styled spans and dropping every other escape sequence
+ */
+export function ansiToHtml(text: string): string {
+    let html = '';
+    let state: SgrState = {};
+    let lastIndex = 0;
+
+    const flush = (chunk: string) => {
+        if (!chunk) return;
+        const style = sgrStyle(state);
+        html += style ? `<span style="${style}">${escapeHtml(chunk)}</span>` : escapeHtml(chunk);
+    };
+
+    for (const match of text.matchAll(ANSI_PATTERN)) {
+        flush(text.slice(lastIndex, match.index));
+        lastIndex = match.index + match[0].length;
+
+        const sgr = match[0].match(/^\x1b\[([\d;]*)m$/);
+        if (sgr) {
+            state = applySgr(state, sgr[1] ? sgr[1].split(';').map(Number) : [0]);
+        }
+    }
+    flush(text.slice(lastIndex));
+
+    return html;
+}
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+export type ConfigFormat = 'json' | 'yaml' | 'toml';
+
+/**
+ * Config file names in order of precedence; the first one that exists is used
+ */
+export const CONFIG_FILE_NAMES = ['services.json', 'services.yaml', 'services.yml', 'services.toml'];
+
+const FORMAT_NAMES: Record<ConfigFormat, string> = {
+    json: 'JSON',
+    yaml: 'YAML',
+    toml: 'TOML',
+};
+
+/**
+ * Config files present in a directory, in order of precedence
+ */
+export function findConfigFiles(dir: string = process.cwd()): string[] {
+    return CONFIG_FILE_NAMES
+        .map(name => path.join(dir, name))
+        .filter(filePath => fs.existsSync(filePath));
+}
+
+/**
+ * The config file in use, falling back to services.json when there is none
+ * yet so that the first write creates it
+ */
+export function findConfigFile(dir: string = process.cwd()): string {
+    return findConfigFiles(dir)[0] ?? path.join(dir, CONFIG_FILE_NAMES[0]);
+}
+
+export function configFormat(filePath: string): ConfigFormat {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.yaml' || ext === '.yml') return 'yaml';
+    if (ext === '.toml') return 'toml';
+    return 'json';
+}
+
+/**
+ * Parse config file contents. Throws with the format's name on syntax errors.
+ */
+export function parseConfigText(content: string, format: ConfigFormat): unknown {
+    try {
+        switch (format) {
+            case 'yaml':
+                return parseYaml(content);
+            case 'toml':
+                return parseToml(content);
+            default:
+                return JSON.parse(content);
+        }
+    } catch (error) {
+        throw new Error(`is not valid ${FORMAT_NAMES[format]}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Serialize a config for writing back in its own format. Comments in YAML
+ * and TOML files are not kept.
+ */
+export function stringifyConfig(config: object, format: ConfigFormat): string {
+    switch (format) {
+        case 'yaml':
+            return stringifyYaml(config);
+        case 'toml':
+            return stringifyToml(config);
+        default:
+            return JSON.stringify(config, null, 4) + '\n';
+    }
+}
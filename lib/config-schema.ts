@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { parseConfigText, type ConfigFormat } from './config-file';
+import { findDependencyCycles, getDependencies } from './dependency-graph';
+import { expandHome, interpolate } from './env';
+import type { ConfigIssue, HubSettings, ServiceConfig, ServiceProfile, ServicesConfigFile } from './types';
+
+/**
+ * Ids are used in URLs and file names under .services-hub
+ */
+export const SERVICE_ID_PATTERN = /^[\w-]+$/;
+
+type Check = (value: unknown, path: string, issues: ConfigIssue[]) => void;
+type Field = Check | { check: Check; required: true };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    if (!/^[A-Za-z_$][\w$]*$/.test(key)) return `${path}[${JSON.stringify(key)}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+function fail(issues: ConfigIssue[], path: string, message: string): void {
+    issues.push({ path: path || '$', message, severity: 'error' });
+}
+
+function warn(issues: ConfigIssue[], path: string, message: string): void {
+    issues.push({ path: path || '$', message, severity: 'warning' });
+}
+
+const string: Check = (value, path, issues) => {
+    if (typeof value !== 'string') fail(issues, path, 'must be a string');
+};
+
+const nonEmptyString: Check = (value, path, issues) => {
+    if (typeof value !== 'string' || !value.trim()) fail(issues, path, 'must be a non-empty string');
+};
+
+const boolean: Check = (value, path, issues) => {
+    if (typeof value !== 'boolean') fail(issues, path, 'must be true or false');
+};
+
+const serviceId: Check = (value, path, issues) => {
+    if (typeof value !== 'string' || !SERVICE_ID_PATTERN.test(value)) {
+        fail(issues, path, 'must only contain letters, digits, _ and -');
+    }
+};
+
+const regex: Check = (value, path, issues) => {
+    if (typeof value !== 'string') return fail(issues, path, 'must be a regular expression string');
+    try {
+        new RegExp(value);
+    } catch (error) {
+        fail(issues, path, `is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const signal: Check = (value, path, issues) => {
+    if (typeof value !== 'string' || !(value in os.constants.signals)) {
+        fail(issues, path, 'must be a signal name such as SIGTERM or SIGINT');
+    }
+};
+
+function number({ integer = false, min = 0 }: { integer?: boolean; min?: number } = {}): Check {
+    return (value, path, issues) => {
+        if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+            fail(issues, path, integer ? 'must be an integer' : 'must be a number');
+        } else if (value < min) {
+            fail(issues, path, `must be at least ${min}`);
+        }
+    };
+}
+
+function oneOf(values: readonly string[]): Check {
+    return (value, path, issues) => {
+        if (typeof value !== 'string' || !values.includes(value)) {
+            fail(issues, path, `must be one of ${values.map(v => `'${v}'`).join(', ')}`);
+        }
+    };
+}
+
+function arrayOf(item: Check): Check {
+    return (value, path, issues) => {
+        if (!Array.isArray(value)) return fail(issues, path, 'must be an array');
+        value.forEach((entry, index) => item(entry, join(path, index), issues));
+    };
+}
+
+function recordOf(item: Check): Check {
+    return (value, path, issues) => {
+        if (!isObject(value)) return fail(issues, path, 'must be an object');
+        for (const [key, entry] of Object.entries(value)) {
+            item(entry, join(path, key), issues);
+        }
+    };
+}
+
+/**
+ * Check an object's known fields. Unknown keys are usually typos of optional
+ * fields, which would otherwise be silently ignored, so they are warned about.
+ */
+function object(fields: Record<string, Field>): Check {
+    return (value, path, issues) => {
+        if (!isObject(value)) return fail(issues, path, 'must be an object');
+
+        for (const [key, field] of Object.entries(fields)) {
+            const check = typeof field === 'function' ? field : field.check;
+            if (value[key] !== undefined) {
+                check(value[key], join(path, key), issues);
+            } else if (typeof field !== 'function') {
+                fail(issues, join(path, key), 'is required');
+            }
+        }
+        for (const key of Object.keys(value)) {
+            if (!(key in fields)) warn(issues, join(path, key), 'is not a known field and is ignored');
+        }
+    };
+}
+
+const required = (check: Check): Field => ({ check, required: true });
+
+const dependency = object({
+    id: required(serviceId),
+    condition: oneOf(['spawned', 'healthy', 'port', 'log']),
+    port: number({ integer: true, min: 1 }),
+    host: string,
+    pattern: regex,
+    timeoutMs: number(),
+});
+
+const healthCheck = object({
+    type: required(oneOf(['http', 'tcp', 'command'])),
+    url: string,
+    expectedStatus: number({ integer: true, min: 100 }),
+    host: string,
+    port: number({ integer: true, min: 1 }),
+    command: string,
+    intervalMs: number(),
+    timeoutMs: number(),
+    retries: number({ integer: true }),
+    startupTimeoutMs: number(),
+});
+
+const persistLogs = object({
+    maxFileBytes: number({ integer: true, min: 1 }),
+    maxAgeDays: number(),
+    maxRuns: number({ integer: true, min: 1 }),
+});
+
+const alertRule = object({
+    pattern: required(regex),
+    name: string,
+    severity: oneOf(['info', 'warning', 'critical']),
+    cooldownMs: number(),
+});
+
+const service = object({
+    id: required(serviceId),
+    name: required(nonEmptyString),
+    command: required(nonEmptyString),
+    cwd: required(nonEmptyString),
+    env: recordOf(string),
+    envFile: (value, path, issues) => (Array.isArray(value) ? arrayOf(nonEmptyString) : nonEmptyString)(value, path, issues),
+    autoStart: boolean,
+    description: string,
+    group: nonEmptyString,
+    tags: arrayOf(nonEmptyString),
+    restartPolicy: oneOf(['no', 'on-failure', 'always']),
+    maxRestarts: number({ integer: true }),
+    restartDelayMs: number(),
+    maxRestartDelayMs: number(),
+    dependsOn: arrayOf((value, path, issues) => (typeof value === 'string' ? serviceId : dependency)(value, path, issues)),
+    healthCheck,
+    stopSignal: signal,
+    stopTimeoutMs: number(),
+    stopCommand: string,
+    pty: boolean,
+    persistLogs: (value, path, issues) => (typeof value === 'boolean' ? boolean : persistLogs)(value, path, issues),
+    logBufferBytes: number({ integer: true, min: 1 }),
+    logParser: (value, path, issues) => (
+        typeof value === 'string' ? oneOf(['json', 'logfmt']) : object({ regex: required(regex) })
+    )(value, path, issues),
+    alerts: arrayOf(alertRule),
+    restartOnConfigChange: boolean,
+});
+
+const notificationSink = object({
+    type: required(oneOf(['webhook', 'command', 'browser'])),
+    name: string,
+    events: arrayOf(oneOf(['exit', 'error', 'crash-loop', 'alert'])),
+    services: arrayOf(string),
+    url: string,
+    headers: recordOf(string),
+    retries: number({ integer: true }),
+    command: string,
+});
+
+const settingsFields: Record<string, Check> = {
+    orphanPolicy: oneOf(['adopt', 'reap']),
+    shutdownPolicy: oneOf(['stop', 'leave-running']),
+    removedServicePolicy: oneOf(['keep-running', 'stop']),
+    logBufferBytes: number({ integer: true, min: 1 }),
+    notifications: arrayOf(notificationSink),
+};
+
+const profile = object({
+    description: string,
+    services: required(arrayOf(serviceId)),
+    overrides: recordOf(object({
+        command: nonEmptyString,
+        env: recordOf(string),
+    })),
+});
+
+function hasErrorsUnder(issues: ConfigIssue[], path: string): boolean {
+    return issues.some(issue => issue.severity === 'error'
+        && (issue.path === path || issue.path.startsWith(`${path}.`) || issue.path.startsWith(`${path}[`)));
+}
+
+/**
+ * Check a single service definition, reporting paths below `path`
+ */
+export function validateServiceConfig(value: unknown, path = ''): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    service(value, path, issues);
+
+    if (isObject(value) && typeof value.cwd === 'string' && value.cwd.trim()) {
+        const cwd = expandHome(interpolate(value.cwd, process.env));
+        if (!fs.existsSync(cwd)) {
+            warn(issues, join(path, 'cwd'), `directory '${cwd}' does not exist`);
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Check a parsed config file. Services with errors are left out of the
+ * returned config, as are invalid settings, so the rest can still be loaded.
+ */
+export function validateConfig(raw: unknown): { config: ServicesConfigFile; issues: ConfigIssue[] } {
+    const issues: ConfigIssue[] = [];
+    const config: ServicesConfigFile = { services: [] };
+
+    if (!isObject(raw)) {
+        fail(issues, '', 'must be an object with a services array');
+        return { config, issues };
+    }
+
+    for (const key of Object.keys(raw)) {
+        if (key !== 'services' && key !== 'settings' && key !== 'profiles') warn(issues, key, 'is not a known field and is ignored');
+    }
+
+    if (raw.settings !== undefined) {
+        if (!isObject(raw.settings)) {
+            fail(issues, 'settings', 'must be an object');
+        } else {
+            object(settingsFields)(raw.settings, 'settings', issues);
+            config.settings = Object.fromEntries(Object.entries(raw.settings)
+                .filter(([key]) => key in settingsFields && !hasErrorsUnder(issues, join('settings', key)))) as HubSettings;
+        }
+    }
+
+    if (!Array.isArray(raw.services)) {
+        fail(issues, 'services', 'must be an array');
+        return { config, issues };
+    }
+
+    const seen = new Map<string, number>();
+    raw.services.forEach((entry, index) => {
+        const path = join('services', index);
+        issues.push(...validateServiceConfig(entry, path));
+
+        const id = isObject(entry) ? entry.id : undefined;
+        if (typeof id === 'string' && seen.has(id)) {
+            fail(issues, join(path, 'id'), `duplicate id '${id}', already used by services[${seen.get(id)}]`);
+        } else if (typeof id === 'string') {
+            seen.set(id, index);
+        }
+
+        if (!hasErrorsUnder(issues, path)) {
+            config.services.push(entry as unknown as ServiceConfig);
+        }
+    });
+
+    config.services = checkDependencies(config.services, seen, issues);
+    const services = new Map(config.services.map(s => [s.id, s]));
+
+    if (raw.profiles !== undefined) {
+        config.profiles = validateProfiles(raw.profiles, services, issues);
+    }
+
+    return { config, issues };
+}
+
+/**
+ * Report dependencies on unknown services and dependency cycles as errors on
+ * the `dependsOn` entries involved, and leave those services out. That can
+ * break their dependents in turn, so this repeats until nothing is left out.
+ * `indexes` maps ids to their position in the file (internal)
+ */
+function checkDependencies(loaded: ServiceConfig[], indexes: Map<string, number>, issues: ConfigIssue[]): ServiceConfig[] {
+    let services = new Map(loaded.map(s => [s.id, s]));
+    const dependsOnPath = (id: string, dependency: number) =>
+        join(join(join('services', indexes.get(id)!), 'dependsOn'), dependency);
+
+    for (;;) {
+        const broken = new Set<string>();
+
+        for (const config of services.values()) {
+            getDependencies(config).forEach((dep, index) => {
+                if (services.has(dep.id)) return;
+
+                fail(issues, dependsOnPath(config.id, index), indexes.has(dep.id)
+                    ? `depends on '${dep.id}', which is skipped for its errors`
+                    : `unknown service '${dep.id}'`);
+                broken.add(config.id);
+            });
+        }
+
+        for (const cycle of findDependencyCycles(services)) {
+            for (let i = 0; i < cycle.length - 1; i++) {
+                const [id, next] = [cycle[i], cycle[i + 1]];
+                const index = getDependencies(services.get(id)!).findIndex(dep => dep.id === next);
+                fail(issues, dependsOnPath(id, index), `is part of a dependency cycle: ${cycle.join(' -> ')}`);
+                broken.add(id);
+            }
+        }
+
+        if (broken.size === 0) return [...services.values()];
+        services = new Map([...services].filter(([id]) => !broken.has(id)));
+    }
+}
+
+/**
+ * Check profiles against the loaded services. Profiles with errors are left
+ * out; references to unknown services are only warned about, as the service
+ * may have been skipped for its own errors (internal)
+ */
+function validateProfiles(
+    value: unknown,
+    services: Map<string, ServiceConfig>,
+    issues: ConfigIssue[]
+): Record<string, ServiceProfile> {
+    const profiles: Record<string, ServiceProfile> = {};
+
+    recordOf(profile)(value, 'profiles', issues);
+    if (!isObject(value)) return profiles;
+
+    for (const [name, entry] of Object.entries(value)) {
+        const path = join('profiles', name);
+        if (hasErrorsUnder(issues, path)) continue;
+
+        const { services: ids, overrides = {} } = entry as unknown as ServiceProfile;
+        ids.forEach((id, index) => {
+            if (!services.has(id)) warn(issues, join(join(path, 'services'), index), `unknown service '${id}'`);
+        });
+        for (const id of Object.keys(overrides)) {
+            if (!services.has(id)) warn(issues, join(join(path, 'overrides'), id), `unknown service '${id}'`);
+        }
+
+        profiles[name] = entry as unknown as ServiceProfile;
+    }
+
+    return profiles;
+}
+
+/**
+ * Parse and check the contents of a config file
+ */
+export function parseConfig(content: string, format: ConfigFormat = 'json'): { config: ServicesConfigFile; issues: ConfigIssue[] } {
+    let raw: unknown;
+    try {
+        raw = parseConfigText(content, format);
+    } catch (error) {
+        return {
+            config: { services: [] },
+            issues: [{ path: '$', message: error instanceof Error ? error.message : String(error), severity: 'error' }],
+        };
+    }
+
+    return validateConfig(raw);
+}
@@ -0,0 +1,129 @@
+import type { ServiceConfig, ServiceDependency } from './types';
+
+/**
+ * Expand the shorthand `"dependsOn": ["db"]` form into a full dependency
+ */
+export function normalizeDependency(dep: string | ServiceDependency): ServiceDependency {
+    return typeof dep === 'string' ? { id: dep } : dep;
+}
+
+/**
+ * Get the normalized dependencies of a service
+ */
+export function getDependencies(config: ServiceConfig): ServiceDependency[] {
+    return (config.dependsOn ?? []).map(normalizeDependency);
+}
+
+/**
+ * Resolve the order in which services must be started so that every
+ * dependency comes before its dependents. The result contains the requested
+ * ids plus all of their transitive dependencies. Stop in reverse order.
+ *
+ * Throws on unknown service ids and on dependency cycles.
+ */
+export function resolveStartOrder(services: Map<string, ServiceConfig>, ids: string[]): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string, dependent?: string) => {
+        if (visited.has(id)) return;
+
+        const cycleStart = path.indexOf(id);
+        if (cycleStart !== -1) {
+            const cycle = [...path.slice(cycleStart), id].join(' -> ');
+            throw new Error(`Dependency cycle detected: ${cycle}`);
+        }
+
+        const config = services.get(id);
+        if (!config) {
+            throw new Error(
+                dependent
+                    ? `Service '${dependent}' depends on unknown service '${id}'`
+                    : `Service '${id}' not found`
+            );
+        }
+
+        path.push(id);
+        for (const dep of getDependencies(config)) {
+            visit(dep.id, id);
+        }
+        path.pop();
+
+        visited.add(id);
+        order.push(id);
+    };
+
+    for (const id of ids) {
+        visit(id);
+    }
+
+    return order;
+}
+
+/**
+ * Group services into waves for stopping them: each service comes in a later
+ * wave than every service in `ids` that depends on it, directly or through
+ * services that keep running. Services within a wave can be stopped together.
+ * Ids not in `services`, e.g. removed ones, go in the first wave.
+ *
+ * Throws on dependency cycles.
+ */
+export function resolveStopWaves(services: Map<string, ServiceConfig>, ids: string[]): string[][] {
+    const stopping = new Set(ids);
+    const order = resolveStartOrder(services, ids.filter(id => services.has(id)));
+    const waveOf = new Map<string, number>();
+
+    // Dependents come after their dependencies in the start order, so walking
+    // it backwards places every dependent before what it depends on
+    for (let i = order.length - 1; i >= 0; i--) {
+        const id = order[i];
+        let wave = 0;
+        for (const dependent of order.slice(i + 1)) {
+            if (getDependencies(services.get(dependent)!).some(dep => dep.id === id)) {
+                wave = Math.max(wave, waveOf.get(dependent)! + (stopping.has(dependent) ? 1 : 0));
+            }
+        }
+        waveOf.set(id, wave);
+    }
+
+    const waves: string[][] = [];
+    for (const id of ids) {
+        const wave = waveOf.get(id) ?? 0;
+        (waves[wave] ??= []).push(id);
+    }
+    return waves.filter(Boolean);
+}
+
+/**
+ * Find the dependency cycles among services, each as the ids along it with
+ * the first repeated at the end, e.g. ['a', 'b', 'a']. Dependencies on
+ * unknown services are ignored.
+ */
+export function findDependencyCycles(services: Map<string, ServiceConfig>): string[][] {
+    const cycles: string[][] = [];
+    // Each cycle is reported once, however many of its members we start from
+    const reported = new Set<string>();
+    const known = new Map([...services].map(([id, config]) => [id, {
+        ...config,
+        dependsOn: getDependencies(config).filter(dep => services.has(dep.id)),
+    }]));
+
+    for (const id of known.keys()) {
+        try {
+            resolveStartOrder(known, [id]);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const cycle = message.match(/^Dependency cycle detected: (.*)$/)?.[1]?.split(' -> ');
+            if (!cycle) continue;
+
+            const key = [...new Set(cycle)].sort().join(',');
+            if (!reported.has(key)) {
+                reported.add(key);
+                cycles.push(cycle);
+            }
+        }
+    }
+
+    return cycles;
+}
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { EnvVariable, ServiceConfig } from './types';
+
+/**
+ * Set for every service so output is unbuffered and colored
+ */
+const HUB_ENV: Record<string, string> = {
+    PYTHONUNBUFFERED: '1',
+    FORCE_COLOR: '1',
+    TERM: 'xterm-256color',
+};
+
+/**
+ * A service definition with variables and `~` resolved, ready to spawn
+ */
+export interface ResolvedService {
+    command: string;
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    /** Where each variable came from: `process`, `hub`, an env file path or `config` */
+    sources: Record<string, string>;
+    /** Unset variables and env files that could not be read */
+    warnings: string[];
+}
+
+/**
+ * Expand a leading `~` to the home directory
+ */
+export function expandHome(p: string): string {
+    if (p === '~') return os.homedir();
+    if (p.startsWith('~/')) return path.join(os.homedir(), p.slice(2));
+    return p;
+}
+
+interface InterpolateOptions {
+    /** Called for unset variables without a default */
+    onMissing?: (name: string) => void;
+    /** Leave unset variables in place, e.g. for the shell to expand at run time */
+    keepUnset?: boolean;
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}`; the default applies when the variable
+ * is unset or empty. `$${` stays a literal `${`. Bare `$VAR` is left alone
+ * for the shell. Unset variables without a default become empty.
+ */
+export function interpolate(
+    text: string,
+    vars: Record<string, string | undefined>,
+    options: InterpolateOptions = {}
+): string {
+    return text.replace(/\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match, name: string, fallback?: string) => {
+        if (match.startsWith('$$')) return match.slice(1);
+
+        const value = vars[name];
+        if (value !== undefined && value !== '') return value;
+        if (fallback !== undefined) return fallback;
+        if (options.keepUnset) return match;
+
+        options.onMissing?.(name);
+        return '';
+    });
+}
+
+/**
+ * Parse a dotenv file: `KEY=value` lines with optional `export`, `#` comments,
+ * and single or double quoted values. Double quoted and unquoted values are
+ * interpolated against `vars` and the variables defined above them.
+ */
+export function parseEnvFile(
+    content: string,
+    vars: Record<string, string | undefined> = {},
+    onMissing?: (name: string) => void
+): Record<string, string> {
+    const env: Record<string, string> = {};
+
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/);
+        if (!match) continue;
+
+        const [, key, raw] = match;
+        const scope = { ...vars, ...env };
+        let value: string;
+
+        if (raw.startsWith("'")) {
+            value = raw.slice(1, raw.indexOf("'", 1) === -1 ? undefined : raw.indexOf("'", 1));
+        } else if (raw.startsWith('"')) {
+            const end = raw.search(/(?<!\\)"(?=\s*(#.*)?$)/);
+            value = interpolate(
+                raw.slice(1, end > 0 ? end : undefined).replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1'),
+                scope,
+                { onMissing }
+            );
+        } else {
+            // An unquoted value ends at an inline comment
+            value = interpolate(raw.replace(/\s+#.*$/, '').trim(), scope, { onMissing });
+        }
+
+        env[key] = value;
+    }
+
+    return env;
+}
+
+function toList(envFile: string | string[] | undefined): string[] {
+    if (!envFile) return [];
+    return Array.isArray(envFile) ? envFile : [envFile];
+}
+
+/**
+ * Resolve a service's cwd, environment and command. Later sources override
+ * earlier ones: the hub's own environment, the hub defaults, each envFile in
+ * order, then `env` from the config. `cwd` is resolved against the hub's
+ * environment, env values against everything before them, and the command
+ * against the final environment.
+ */
+export function resolveService(config: ServiceConfig, baseEnv: NodeJS.ProcessEnv = process.env): ResolvedService {
+    const warnings: string[] = [];
+    const missing = (where: string) => ({
+        onMissing: (name: string) => {
+            warnings.push(`\${${name}} in ${where} is not set`);
+        },
+    });
+
+    const env: Record<string, string> = {};
+    const sources: Record<string, string> = {};
+    const apply = (vars: Record<string, string | undefined>, source: string) => {
+        for (const [key, value] of Object.entries(vars)) {
+            if (value === undefined) continue;
+            env[key] = value;
+            sources[key] = source;
+        }
+    };
+
+    apply(baseEnv, 'process');
+    apply(HUB_ENV, 'hub');
+
+    const cwd = path.resolve(expandHome(interpolate(config.cwd, baseEnv, missing('cwd'))));
+
+    for (const file of toList(config.envFile)) {
+        const filePath = path.resolve(cwd, expandHome(interpolate(file, env, missing('envFile'))));
+        let content: string;
+        try {
+            content = fs.readFileSync(filePath, 'utf-8');
+        } catch {
+            warnings.push(`Env file '${file}' was not found in ${cwd}`);
+            continue;
+        }
+        apply(parseEnvFile(content, env, missing(file).onMissing), file);
+    }
+
+    for (const [key, value] of Object.entries(config.env ?? {})) {
+        apply({ [key]: interpolate(value, env, missing(`env.${key}`)) }, 'config');
+    }
+
+    // Variables the command sets itself, e.g. in a loop, are for the shell to expand
+    const command = interpolate(config.command, env, { keepUnset: true });
+
+    return { command, cwd, env: env as NodeJS.ProcessEnv, sources, warnings };
+}
+
+/**
+ * List a resolved environment with the source of each variable, sorted by name
+ */
+export function describeEnv(resolved: ResolvedService): EnvVariable[] {
+    return Object.keys(resolved.env)
+        .sort()
+        .map(name => ({ name, value: resolved.env[name] ?? '', source: resolved.sources[name] }));
+}
@@ -0,0 +1,103 @@
+import { exec } from 'child_process';
+import { canConnect } from './wait-conditions';
+import type { HealthCheckConfig, HealthProbeResult } from './types';
+
+export const DEFAULT_HEALTH_INTERVAL_MS = 5000;
+export const DEFAULT_HEALTH_TIMEOUT_MS = 2000;
+export const DEFAULT_HEALTH_RETRIES = 3;
+export const DEFAULT_STARTUP_TIMEOUT_MS = 60000;
+
+interface ProbeContext {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Run a single health probe. Never throws: failures are reported in the result.
+ */
+export async function runHealthProbe(check: HealthCheckConfig, context: ProbeContext): Promise<HealthProbeResult> {
+    const started = Date.now();
+    const timeoutMs = check.timeoutMs ?? DEFAULT_HEALTH_TIMEOUT_MS;
+
+    let ok = false;
+    let message: string;
+
+    try {
+        switch (check.type) {
+            case 'http':
+                ({ ok, message } = await probeHttp(check, timeoutMs));
+                break;
+            case 'tcp':
+                ({ ok, message } = await probeTcp(check, timeoutMs));
+                break;
+            case 'command':
+                ({ ok, message } = await probeCommand(check, timeoutMs, context));
+                break;
+            default:
+                message = `Unknown health check type '${(check as HealthCheckConfig).type}'`;
+        }
+    } catch (error) {
+        message = error instanceof Error ? error.message : String(error);
+    }
+
+    return {
+        ok,
+        timestamp: new Date().toISOString(),
+        durationMs: Date.now() - started,
+        message,
+    };
+}
+
+async function probeHttp(check: HealthCheckConfig, timeoutMs: number): Promise<{ ok: boolean; message: string }> {
+    if (!check.url) {
+        return { ok: false, message: 'HTTP health check has no url' };
+    }
+
+    const response = await fetch(check.url, {
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: 'no-store',
+    });
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    const ok = check.expectedStatus !== undefined
+        ? response.status === check.expectedStatus
+        : response.ok;
+
+    return { ok, message: `HTTP ${response.status}` };
+}
+
+async function probeTcp(check: HealthCheckConfig, timeoutMs: number): Promise<{ ok: boolean; message: string }> {
+    if (!check.port) {
+        return { ok: false, message: 'TCP health check has no port' };
+    }
+
+    const host = check.host ?? '127.0.0.1';
+    const ok = await canConnect(check.port, host, timeoutMs);
+
+    return { ok, message: ok ? `Connected to ${host}:${check.port}` : `Cannot connect to ${host}:${check.port}` };
+}
+
+function probeCommand(
+    check: HealthCheckConfig,
+    timeoutMs: number,
+    context: ProbeContext
+): Promise<{ ok: boolean; message: string }> {
+    if (!check.command) {
+        return Promise.resolve({ ok: false, message: 'Command health check has no command' });
+    }
+
+    return new Promise(resolve => {
+        exec(check.command!, { cwd: context.cwd, env: context.env, timeout: timeoutMs }, (error, stdout, stderr) => {
+            const output = `${stdout}${stderr}`.trim().split('\n').pop() ?? '';
+
+            if (!error) {
+                resolve({ ok: true, message: output || 'Exited with code 0' });
+            } else if (error.killed) {
+                resolve({ ok: false, message: `Timed out after ${timeoutMs}ms` });
+            } else {
+                resolve({ ok: false, message: output || `Exited with code ${error.code}` });
+            }
+        });
+    });
+}
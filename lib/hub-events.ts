@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useEffectEvent } from 'react';
+
+/**
+ * A message from the hub-wide event stream: `notification`, `config` or
+ * `profile`, with the fields of the event it carries
+ */
+export type HubEvent = { type: string } & Record<string, unknown>;
+
+type Listener = (event: HubEvent) => void;
+
+const listeners = new Set<Listener>();
+let eventSource: EventSource | null = null;
+
+/**
+ * Open the shared connection to /api/events on first use. Browsers allow few
+ * connections per host over HTTP/1.1, so every component shares this one.
+ */
+function connect(): void {
+    if (eventSource) return;
+
+    eventSource = new EventSource('/api/events');
+    eventSource.onmessage = (message) => {
+        let event: HubEvent;
+        try {
+            event = JSON.parse(message.data);
+        } catch (err) {
+            console.error('Failed to parse event:', err);
+            return;
+        }
+
+        for (const listener of listeners) {
+            try {
+                listener(event);
+            } catch (err) {
+                console.error('Event listener error:', err);
+            }
+        }
+    };
+}
+
+function disconnect(): void {
+    eventSource?.close();
+    eventSource = null;
+}
+
+/**
+ * Call `listener` with every hub event while mounted and `enabled`. The
+ * connection is closed once no component listens anymore.
+ */
+export function useHubEvents(listener: Listener, enabled = true): void {
+    const onEvent = useEffectEvent(listener);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const subscriber: Listener = event => onEvent(event);
+        listeners.add(subscriber);
+        connect();
+
+        return () => {
+            listeners.delete(subscriber);
+            if (listeners.size === 0) disconnect();
+        };
+    }, [enabled]);
+}
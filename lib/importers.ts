@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ServiceConfig } from './types';
+
+export type ImportFormat = 'procfile' | 'compose';
+
+/**
+ * Services converted from another file, with notes about what could not be
+ */
+export interface ImportResult {
+    format: ImportFormat;
+    services: ServiceConfig[];
+    warnings: string[];
+}
+
+/**
+ * Turn a process or compose service name into a service id
+ */
+function toServiceId(name: string): string {
+    return name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'service';
+}
+
+/**
+ * Quote an argument for /bin/sh when it contains anything but safe characters
+ */
+function shellQuote(arg: string): string {
+    return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Tell a Procfile from a compose file by its name
+ */
+export function detectImportFormat(filePath: string): ImportFormat | null {
+    const name = path.basename(filePath).toLowerCase();
+    if (name === 'procfile' || name.startsWith('procfile.')) return 'procfile';
+    if (/^(docker-)?compose(\.[\w-]+)?\.ya?ml$/.test(name)) return 'compose';
+    return null;
+}
+
+/**
+ * Convert a Foreman-style Procfile, one `name: command` per line. Processes
+ * run in the Procfile's directory.
+ */
+export function importProcfile(content: string, cwd: string): ImportResult {
+    const result: ImportResult = { format: 'procfile', services: [], warnings: [] };
+
+    content.split('\n').forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+
+        const match = trimmed.match(/^([\w-]+):\s*(.+)$/);
+        if (!match) {
+            result.warnings.push(`Line ${index + 1} is not a 'name: command' entry`);
+            return;
+        }
+
+        result.services.push({
+            id: toServiceId(match[1]),
+            name: match[1],
+            command: match[2],
+            cwd,
+        });
+    });
+
+    return result;
+}
+
+/**
+ * Convert the `command`, `working_dir`, `environment` and `depends_on` fields
+ * of a compose file. Services without a command, typically image-only ones,
+ * are skipped. A relative working_dir is resolved against the compose file.
+ */
+export function importCompose(content: string, cwd: string): ImportResult {
+    const result: ImportResult = { format: 'compose', services: [], warnings: [] };
+    const compose = parseYaml(content);
+
+    if (!compose || typeof compose !== 'object' || typeof compose.services !== 'object' || !compose.services) {
+        throw new Error('Compose file has no services section');
+    }
+
+    for (const [name, definition] of Object.entries(compose.services as Record<string, Record<string, unknown>>)) {
+        const command = definition?.command;
+        if (typeof command !== 'string' && !Array.isArray(command)) {
+            result.warnings.push(`Skipped '${name}': it has no command`);
+            continue;
+        }
+
+        const service: ServiceConfig = {
+            id: toServiceId(name),
+            name,
+            command: Array.isArray(command) ? command.map(arg => shellQuote(String(arg))).join(' ') : command,
+            cwd: typeof definition.working_dir === 'string' ? path.resolve(cwd, definition.working_dir) : cwd,
+        };
+
+        const env = importComposeEnvironment(definition.environment);
+        if (env) service.env = env;
+
+        const dependsOn = Array.isArray(definition.depends_on)
+            ? definition.depends_on
+            : definition.depends_on && typeof definition.depends_on === 'object' ? Object.keys(definition.depends_on) : [];
+        if (dependsOn.length > 0) service.dependsOn = dependsOn.map(dep => toServiceId(String(dep)));
+
+        for (const key of ['image', 'build', 'ports', 'volumes']) {
+            if (definition[key] !== undefined) {
+                result.warnings.push(`'${name}': ${key} is not supported and was ignored`);
+            }
+        }
+
+        result.services.push(service);
+    }
+
+    return result;
+}
+
+/**
+ * Read `environment` as a map or a list of `KEY=value`. Variables without a
+ * value, which compose passes through from the host, are left out (internal)
+ */
+function importComposeEnvironment(environment: unknown): Record<string, string> | undefined {
+    const env: Record<string, string> = {};
+
+    if (Array.isArray(environment)) {
+        for (const entry of environment) {
+            const [key, ...value] = String(entry).split('=');
+            if (value.length > 0) env[key] = value.join('=');
+        }
+    } else if (environment && typeof environment === 'object') {
+        for (const [key, value] of Object.entries(environment)) {
+            if (value !== null && value !== undefined) env[key] = String(value);
+        }
+    }
+
+    return Object.keys(env).length > 0 ? env : undefined;
+}
+
+/**
+ * Convert a Procfile or compose file into service definitions
+ */
+export function importServicesFile(filePath: string): ImportResult {
+    const format = detectImportFormat(filePath);
+    if (!format) {
+        throw new Error(`Cannot tell the format of '${path.basename(filePath)}', expected a Procfile or a compose file`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const cwd = path.dirname(path.resolve(filePath));
+
+    return format === 'procfile' ? importProcfile(content, cwd) : importCompose(content, cwd);
+}
@@ -0,0 +1,67 @@
+// A line longer than this is emitted in pieces rather than buffered without bound
+const MAX_LINE_LENGTH = 64 * 1024;
+
+/**
+ * Split text into lines, each keeping its `\n`. The last element is an
+ * unterminated remainder, or an empty string if the text ends with a newline (internal).
+ */
+function splitLines(text: string): string[] {
+    const lines = text.split(/(?<=\n)/);
+    if (lines[lines.length - 1].endsWith('\n')) {
+        lines.push('');
+    }
+    return lines;
+}
+
+/**
+ * Reassembles output chunks into complete lines. An unterminated remainder is
+ * held back until the rest of the line arrives or `flushMs` passes, and is
+ * then emitted as a partial line.
+ */
+export class LineAssembler {
+    private pending = '';
+    private timer: NodeJS.Timeout | null = null;
+    private flushMs: number;
+    private onLine: (line: string, partial: boolean) => void;
+
+    constructor(flushMs: number, onLine: (line: string, partial: boolean) => void) {
+        this.flushMs = flushMs;
+        this.onLine = onLine;
+    }
+
+    push(chunk: string): void {
+        const lines = splitLines(this.pending + chunk);
+        this.pending = lines.pop()!;
+
+        for (const line of lines) {
+            this.onLine(line, false);
+        }
+
+        if (this.pending.length >= MAX_LINE_LENGTH || (this.pending && this.flushMs <= 0)) {
+            this.flush();
+        } else if (this.pending && !this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.flushMs);
+        } else if (!this.pending) {
+            this.clearTimer();
+        }
+    }
+
+    /**
+     * Emit the held-back remainder now, if there is one
+     */
+    flush(): void {
+        this.clearTimer();
+        if (!this.pending) return;
+
+        const partial = this.pending;
+        this.pending = '';
+        this.onLine(partial, true);
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+}
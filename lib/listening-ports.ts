@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+
+// Socket state code for LISTEN in /proc/net/tcp{,6}
+const TCP_LISTEN = '0A';
+
+/**
+ * A TCP socket in the LISTEN state
+ */
+export interface ListeningSocket {
+    address: string;
+    port: number;
+}
+
+/**
+ * Decode a hex address from /proc/net/tcp{,6}. The kernel prints each 32-bit
+ * word in host (little-endian) byte order.
+ */
+function decodeAddress(hex: string): string {
+    const words = hex.match(/.{8}/g) ?? [];
+    const bytes = words.flatMap(word => (word.match(/../g) ?? []).reverse().map(b => parseInt(b, 16)));
+
+    if (bytes.length === 4) {
+        return bytes.join('.');
+    }
+
+    // IPv4-mapped IPv6 (::ffff:a.b.c.d)
+    if (bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+        return bytes.slice(12).join('.');
+    }
+
+    const groups: string[] = [];
+    for (let i = 0; i < bytes.length; i += 2) {
+        groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+    }
+    // Collapse the longest run of zero groups
+    return groups.join(':').replace(/(^|:)0(:0)+(:|$)/, '::');
+}
+
+/**
+ * Read all listening TCP sockets on the machine, keyed by socket inode
+ */
+export function readListeningSockets(): Map<number, ListeningSocket> {
+    const sockets = new Map<number, ListeningSocket>();
+
+    for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        for (const line of content.split('\n').slice(1)) {
+            const fields = line.trim().split(/\s+/);
+            if (fields.length < 10 || fields[3] !== TCP_LISTEN) continue;
+
+            const [addressHex, portHex] = fields[1].split(':');
+            const inode = Number(fields[9]);
+            if (!inode) continue;
+
+            sockets.set(inode, { address: decodeAddress(addressHex), port: parseInt(portHex, 16) });
+        }
+    }
+
+    return sockets;
+}
+
+/**
+ * Get the inodes of all sockets a process has open
+ */
+function getSocketInodes(pid: number): number[] {
+    let fds: string[];
+    try {
+        fds = fs.readdirSync(`/proc/${pid}/fd`);
+    } catch {
+        return [];
+    }
+
+    const inodes: number[] = [];
+    for (const fd of fds) {
+        try {
+            const match = fs.readlinkSync(`/proc/${pid}/fd/${fd}`).match(/^socket:\[(\d+)\]$/);
+            if (match) inodes.push(Number(match[1]));
+        } catch {
+            // fd closed while we were reading
+        }
+    }
+    return inodes;
+}
+
+/**
+ * Find the TCP sockets the given processes are listening on, sorted by port
+ */
+export function findListeningSockets(
+    pids: number[],
+    sockets: Map<number, ListeningSocket> = readListeningSockets()
+): ListeningSocket[] {
+    const found = new Map<string, ListeningSocket>();
+
+    for (const pid of pids) {
+        for (const inode of getSocketInodes(pid)) {
+            const socket = sockets.get(inode);
+            if (socket) found.set(`${socket.address}:${socket.port}`, socket);
+        }
+    }
+
+    return Array.from(found.values()).sort((a, b) => a.port - b.port);
+}
+
+/**
+ * Build a browser URL for a listening socket
+ */
+export function socketUrl({ address, port }: ListeningSocket): string {
+    const wildcard = address === '0.0.0.0' || address === '::';
+    const loopback = address.startsWith('127.') || address === '::1';
+
+    if (wildcard || loopback) return `http://localhost:${port}`;
+    return address.includes(':') ? `http://[${address}]:${port}` : `http://${address}:${port}`;
+}
@@ -0,0 +1,98 @@
+import type { LogBufferStats, LogEntry } from './types';
+
+const INITIAL_CAPACITY = 1024;
+// Rough per-entry cost of the object, timestamp and stream besides the line itself
+const ENTRY_OVERHEAD_BYTES = 128;
+
+/**
+ * Approximate memory held by a log entry
+ */
+function entrySize(entry: LogEntry): number {
+    return Buffer.byteLength(entry.data) + ENTRY_OVERHEAD_BYTES;
+}
+
+/**
+ * Circular buffer of log entries bounded by their total size. Appending and
+ * evicting the oldest entry are O(1); the slot array only grows, doubling
+ * when it fills up.
+ */
+export class LogRingBuffer {
+    private slots: Array<LogEntry | undefined> = new Array(INITIAL_CAPACITY);
+    // Index of the oldest entry
+    private head = 0;
+    private count = 0;
+    private bytes = 0;
+    private maxBytes: number;
+    private evictedEntries = 0;
+    private evictedBytes = 0;
+
+    constructor(maxBytes: number) {
+        this.maxBytes = maxBytes;
+    }
+
+    get length(): number {
+        return this.count;
+    }
+
+    push(entry: LogEntry): void {
+        if (this.count === this.slots.length) {
+            this.grow();
+        }
+
+        this.slots[(this.head + this.count) % this.slots.length] = entry;
+        this.count++;
+        this.bytes += entrySize(entry);
+        this.evictOverflow();
+    }
+
+    /**
+     * Change the size limit, evicting right away if the buffer is over it
+     */
+    setMaxBytes(maxBytes: number): void {
+        this.maxBytes = maxBytes;
+        this.evictOverflow();
+    }
+
+    /**
+     * Copy of the entries, oldest first
+     */
+    toArray(): LogEntry[] {
+        const entries: LogEntry[] = new Array(this.count);
+        for (let i = 0; i < this.count; i++) {
+            entries[i] = this.slots[(this.head + i) % this.slots.length]!;
+        }
+        return entries;
+    }
+
+    getStats(): LogBufferStats {
+        return {
+            entries: this.count,
+            bytes: this.bytes,
+            maxBytes: this.maxBytes,
+            evictedEntries: this.evictedEntries,
+            evictedBytes: this.evictedBytes,
+        };
+    }
+
+    private evictOverflow(): void {
+        // The newest entry is always kept, even if it alone exceeds the limit
+        while (this.bytes > this.maxBytes && this.count > 1) {
+            const size = entrySize(this.slots[this.head]!);
+            this.slots[this.head] = undefined;
+            this.head = (this.head + 1) % this.slots.length;
+            this.count--;
+            this.bytes -= size;
+            this.evictedEntries++;
+            this.evictedBytes += size;
+        }
+    }
+
+    private grow(): void {
+        const entries = this.toArray();
+        this.slots = new Array(this.slots.length * 2);
+        entries.forEach((entry, i) => {
+            this.slots[i] = entry;
+        });
+        this.head = 0;
+    }
+}
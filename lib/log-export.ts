@@ -0,0 +1,79 @@
+import { ansiToHtml, escapeHtml, stripAnsi } from './ansi';
+import type { LogEntry } from './types';
+
+export const LOG_EXPORT_FORMATS = ['text', 'ndjson', 'html'] as const;
+export type LogExportFormat = typeof LOG_EXPORT_FORMATS[number];
+
+const CONTENT_TYPES: Record<LogExportFormat, string> = {
+    text: 'text/plain; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+};
+
+const EXTENSIONS: Record<LogExportFormat, string> = {
+    text: 'txt',
+    ndjson: 'ndjson',
+    html: 'html',
+};
+
+/**
+ * Render log entries as a downloadable file
+ */
+export function renderLogExport(
+    entries: LogEntry[],
+    format: LogExportFormat,
+    title: string
+): { body: string; contentType: string; extension: string } {
+    let body: string;
+
+    switch (format) {
+        case 'text':
+            body = entries.map(entry => normalizeNewlines(stripAnsi(entry.data))).join('');
+            break;
+        case 'ndjson':
+            body = entries.map(entry => JSON.stringify(entry) + '\n').join('');
+            break;
+        case 'html':
+            body = renderHtml(entries, title);
+            break;
+    }
+
+    return { body, contentType: CONTENT_TYPES[format], extension: EXTENSIONS[format] };
+}
+
+/**
+ * Pty output uses CRLF, keep exports consistent with piped output (internal)
+ */
+function normalizeNewlines(text: string): string {
+    return text.replace(/\r\n/g, '\n');
+}
+
+/**
+ * Self-contained HTML page that keeps the terminal colors (internal)
+ */
+function renderHtml(entries: LogEntry[], title: string): string {
+    // Convert the output as one string so colors that span chunks carry over
+    const output = ansiToHtml(normalizeNewlines(entries.map(entry => entry.data).join('')));
+    const range = entries.length > 0
+        ? `${entries[0].timestamp} – ${entries[entries.length - 1].timestamp}`
+        : 'no output';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; background: #09090b; color: #fafafa; font-family: Menlo, Monaco, "Courier New", monospace; font-size: 13px; }
+  header { padding: 12px 16px; border-bottom: 1px solid #27272a; color: #a1a1aa; }
+  header h1 { margin: 0 0 4px; font-size: 14px; color: #fafafa; }
+  pre { margin: 0; padding: 16px; line-height: 1.2; white-space: pre-wrap; word-break: break-all; }
+</style>
+</head>
+<body>
+<header><h1>${escapeHtml(title)}</h1>${escapeHtml(range)}</header>
+<pre>${output}</pre>
+</body>
+</html>
+`;
+}
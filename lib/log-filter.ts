@@ -0,0 +1,125 @@
+import { stripAnsi } from './ansi';
+import { LOG_LEVELS } from './log-parser';
+import type { LogEntry, LogLevel } from './types';
+
+const LOG_STREAMS: LogEntry['stream'][] = ['stdout', 'stderr', 'system'];
+
+/**
+ * Criteria for selecting log entries, parsed from the logs route query string
+ */
+export interface LogFilter {
+    /** Keep only the last N matching entries of the history */
+    tail?: number;
+    since?: Date;
+    until?: Date;
+    streams?: LogEntry['stream'][];
+    /** Entries without a parsed level never match */
+    levels?: LogLevel[];
+    grep?: RegExp;
+}
+
+/**
+ * Parse `tail`, `since`, `until`, `stream`, `level` and `grep` query parameters.
+ * `grep` is a case-insensitive substring, or a regex when written as
+ * `/pattern/flags`. Throws on malformed values.
+ */
+export function parseLogFilter(params: URLSearchParams): LogFilter {
+    const filter: LogFilter = {};
+
+    const tail = params.get('tail');
+    if (tail !== null) {
+        filter.tail = Number(tail);
+        if (!Number.isInteger(filter.tail) || filter.tail < 0) {
+            throw new Error('tail must be a non-negative integer');
+        }
+    }
+
+    for (const key of ['since', 'until'] as const) {
+        const value = params.get(key);
+        if (value === null) continue;
+
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            throw new Error(`${key} must be an ISO timestamp`);
+        }
+        filter[key] = date;
+    }
+
+    const stream = params.get('stream');
+    if (stream) {
+        const streams = stream.split(',') as LogEntry['stream'][];
+        const unknown = streams.find(s => !LOG_STREAMS.includes(s));
+        if (unknown) {
+            throw new Error(`stream must be one of ${LOG_STREAMS.join(', ')}`);
+        }
+        filter.streams = streams;
+    }
+
+    const level = params.get('level');
+    if (level) {
+        const levels = level.split(',') as LogLevel[];
+        if (levels.some(l => !LOG_LEVELS.includes(l))) {
+            throw new Error(`level must be one of ${LOG_LEVELS.join(', ')}`);
+        }
+        filter.levels = levels;
+    }
+
+    const grep = params.get('grep');
+    if (grep) {
+        filter.grep = parseGrep(grep);
+    }
+
+    return filter;
+}
+
+/**
+ * Build the pattern for a grep parameter (internal)
+ */
+function parseGrep(grep: string): RegExp {
+    const regex = grep.match(/^\/(.+)\/([a-z]*)$/);
+    if (!regex) {
+        return new RegExp(grep.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    }
+
+    try {
+        // Drop g and y, they make test() stateful
+        return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    } catch (error) {
+        throw new Error(`Invalid grep pattern: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * Apply the filter to one entry. With grep, a multi-line chunk is narrowed
+ * down to its matching lines; returns null when nothing is left.
+ */
+export function filterLogEntry(entry: LogEntry, filter: LogFilter): LogEntry | null {
+    if (filter.streams && !filter.streams.includes(entry.stream)) return null;
+    if (filter.levels && (!entry.level || !filter.levels.includes(entry.level))) return null;
+
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return null;
+    if (filter.until && time > filter.until.getTime()) return null;
+
+    if (!filter.grep) return entry;
+
+    const lines = entry.data.split('\n');
+    const matching = lines.filter(line => filter.grep!.test(stripAnsi(line)));
+    if (matching.length === 0) return null;
+    if (matching.length === lines.length) return entry;
+
+    return { ...entry, data: matching.map(line => line.replace(/\r$/, '')).join('\n') + '\n' };
+}
+
+/**
+ * Filter a history of entries, then keep the last `tail` of them
+ */
+export function applyLogFilter(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+    const result: LogEntry[] = [];
+    for (const entry of entries) {
+        const filtered = filterLogEntry(entry, filter);
+        if (filtered) result.push(filtered);
+    }
+
+    return filter.tail !== undefined ? result.slice(result.length - filter.tail) : result;
+}
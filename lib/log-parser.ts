@@ -0,0 +1,132 @@
+import { stripAnsi } from './ansi';
+import type { LogLevel, LogParserConfig } from './types';
+
+export const LOG_LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+    trace: 'trace',
+    verbose: 'trace',
+    debug: 'debug',
+    dbg: 'debug',
+    info: 'info',
+    information: 'info',
+    notice: 'info',
+    warn: 'warn',
+    warning: 'warn',
+    error: 'error',
+    err: 'error',
+    fatal: 'fatal',
+    critical: 'fatal',
+    crit: 'fatal',
+    panic: 'fatal',
+    emerg: 'fatal',
+};
+
+const LEVEL_KEYS = ['level', 'lvl', 'severity', 'loglevel'];
+const MESSAGE_KEYS = ['msg', 'message'];
+
+export interface ParsedLogLine {
+    level?: LogLevel;
+    message?: string;
+    fields?: Record<string, unknown>;
+}
+
+/**
+ * Map a level name or a pino/bunyan numeric level to a LogLevel
+ */
+export function normalizeLevel(value: unknown): LogLevel | undefined {
+    if (typeof value === 'number') {
+        if (value >= 60) return 'fatal';
+        if (value >= 50) return 'error';
+        if (value >= 40) return 'warn';
+        if (value >= 30) return 'info';
+        if (value >= 20) return 'debug';
+        return 'trace';
+    }
+    if (typeof value !== 'string') return undefined;
+
+    return LEVEL_ALIASES[value.trim().toLowerCase()];
+}
+
+/**
+ * Pull the level and message out of a record, the rest become fields (internal)
+ */
+function fromRecord(record: Record<string, unknown>): ParsedLogLine {
+    const fields = { ...record };
+    let level: LogLevel | undefined;
+    let message: string | undefined;
+
+    for (const key of LEVEL_KEYS) {
+        if (key in fields && level === undefined) {
+            level = normalizeLevel(fields[key]);
+            if (level) delete fields[key];
+        }
+    }
+    for (const key of MESSAGE_KEYS) {
+        if (key in fields && message === undefined) {
+            message = String(fields[key]);
+            delete fields[key];
+        }
+    }
+
+    return { level, message: message ?? '', fields };
+}
+
+/**
+ * Parse a JSON object line (internal)
+ */
+function parseJson(line: string): ParsedLogLine | null {
+    if (!line.startsWith('{')) return null;
+
+    try {
+        const record = JSON.parse(line);
+        return record && typeof record === 'object' && !Array.isArray(record) ? fromRecord(record) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse a logfmt line, e.g. `level=info msg="listening" port=3000` (internal)
+ */
+function parseLogfmt(line: string): ParsedLogLine | null {
+    const record: Record<string, unknown> = {};
+    const pair = /([^\s=]+)=(?:"((?:[^"\\]|\\.)*)"|(\S*))/g;
+
+    for (const match of line.matchAll(pair)) {
+        record[match[1]] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+    }
+
+    // Prose that happens to contain `key=value` is not a structured line
+    const keys = Object.keys(record);
+    if (!keys.some(key => LEVEL_KEYS.includes(key) || MESSAGE_KEYS.includes(key))) return null;
+
+    return fromRecord(record);
+}
+
+/**
+ * Build a line parser for a service. Returns null for lines that do not
+ * match, which are kept as plain output.
+ */
+export function createLogParser(config: LogParserConfig): (line: string) => ParsedLogLine | null {
+    if (config === 'json' || config === 'logfmt') {
+        const parse = config === 'json' ? parseJson : parseLogfmt;
+        return line => parse(stripAnsi(line).trim());
+    }
+
+    // Named groups: `level` and `message` are picked out, any others become fields
+    const pattern = new RegExp(config.regex);
+    return line => {
+        const groups = stripAnsi(line).replace(/\r?\n$/, '').match(pattern)?.groups;
+        if (!groups) return null;
+
+        const { level, message, ...groupFields } = groups;
+        // Optional groups that did not participate are left out
+        const fields = Object.fromEntries(Object.entries(groupFields).filter(([, value]) => value !== undefined));
+        return {
+            level: normalizeLevel(level),
+            message,
+            fields: Object.keys(fields).length > 0 ? fields : undefined,
+        };
+    };
+}
@@ -0,0 +1,91 @@
+import { exec } from 'child_process';
+import type { NotificationSink, ServiceNotification } from './types';
+
+const DEFAULT_WEBHOOK_RETRIES = 3;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Doubled after every failed attempt
+const WEBHOOK_RETRY_DELAY_MS = 1000;
+const COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Whether a sink is routed the notification's event type and service
+ */
+export function sinkMatches(sink: NotificationSink, notification: ServiceNotification): boolean {
+    return (!sink.events || sink.events.includes(notification.type))
+        && (!sink.services || sink.services.includes(notification.serviceId));
+}
+
+/**
+ * Deliver a notification to a webhook or command sink. Browser sinks are
+ * served by the events stream instead. Throws once delivery has failed.
+ */
+export async function deliverNotification(sink: NotificationSink, notification: ServiceNotification): Promise<void> {
+    switch (sink.type) {
+        case 'webhook':
+            return postWebhook(sink, notification);
+        case 'command':
+            return runCommand(sink, notification);
+        case 'browser':
+            return;
+    }
+}
+
+/**
+ * POST the notification as JSON, retrying network errors, 429 and 5xx responses (internal)
+ */
+async function postWebhook(sink: NotificationSink, notification: ServiceNotification): Promise<void> {
+    if (!sink.url) {
+        throw new Error('Webhook sink has no url');
+    }
+
+    const retries = sink.retries ?? DEFAULT_WEBHOOK_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+        let response: Response | undefined;
+        let error: Error | undefined;
+        try {
+            response = await fetch(sink.url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...sink.headers },
+                body: JSON.stringify(notification),
+                signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+            });
+        } catch (err) {
+            error = err instanceof Error ? err : new Error(String(err));
+        }
+
+        if (response?.ok) return;
+        if (response) {
+            error = new Error(`Webhook responded with HTTP ${response.status}`);
+            // Other client errors will not go away by sending the same request again
+            if (response.status < 500 && response.status !== 429) throw error;
+        }
+
+        if (attempt >= retries) throw error;
+        await new Promise(resolve => setTimeout(resolve, WEBHOOK_RETRY_DELAY_MS * 2 ** attempt));
+    }
+}
+
+/**
+ * Run the sink's command with the notification as JSON on stdin (internal)
+ */
+function runCommand(sink: NotificationSink, notification: ServiceNotification): Promise<void> {
+    if (!sink.command) {
+        return Promise.reject(new Error('Command sink has no command'));
+    }
+
+    return new Promise((resolve, reject) => {
+        const child = exec(sink.command!, {
+            timeout: COMMAND_TIMEOUT_MS,
+            env: {
+                ...process.env,
+                SERVICES_HUB_EVENT: notification.type,
+                SERVICES_HUB_SERVICE: notification.serviceId,
+                SERVICES_HUB_MESSAGE: notification.message,
+            },
+        }, (error) => (error ? reject(error) : resolve()));
+
+        // The command may not read stdin at all
+        child.stdin?.on('error', () => {});
+        child.stdin?.end(JSON.stringify(notification));
+    });
+}
@@ -0,0 +1,76 @@
+import { dataPath, readJsonFile, writeFileAtomic } from './storage';
+import { isProcAvailable, readProcStat } from './process-tree';
+
+/**
+ * What we remember about a spawned service process so that a restarted hub
+ * can find it again
+ */
+export interface ProcessRecord {
+    serviceId: string;
+    /** Run history entry the process belongs to */
+    runId?: string;
+    pid: number;
+    /** Kernel start time of the process, guards against PID reuse */
+    startTime?: number;
+    startedAt: string;
+    command: string;
+}
+
+type ProcessRecordFile = Record<string, ProcessRecord>;
+
+const registryPath = () => dataPath('processes.json');
+
+/**
+ * Load all process records left behind by this or a previous hub process
+ */
+export function loadProcessRecords(): ProcessRecord[] {
+    return Object.values(readJsonFile<ProcessRecordFile>(registryPath(), {}));
+}
+
+/**
+ * Remember the process currently backing a service
+ */
+export function saveProcessRecord(record: ProcessRecord): void {
+    const records = readJsonFile<ProcessRecordFile>(registryPath(), {});
+    records[record.serviceId] = record;
+    writeFileAtomic(registryPath(), JSON.stringify(records, null, 2));
+}
+
+/**
+ * Forget a service's process, but only if the record still points at `pid`
+ */
+export function removeProcessRecord(serviceId: string, pid?: number): void {
+    const records = readJsonFile<ProcessRecordFile>(registryPath(), {});
+    const record = records[serviceId];
+    if (!record || (pid !== undefined && record.pid !== pid)) return;
+
+    delete records[serviceId];
+    writeFileAtomic(registryPath(), JSON.stringify(records, null, 2));
+}
+
+/**
+ * Get the kernel start time of a process, if the platform exposes it
+ */
+export function getProcessStartTime(pid: number): number | undefined {
+    return readProcStat(pid)?.startTime;
+}
+
+/**
+ * Check that a process is alive and, where possible, that it is the same
+ * process that was recorded rather than a new one that reused its PID
+ */
+export function isProcessAlive(pid: number, startTime?: number): boolean {
+    if (isProcAvailable()) {
+        const stat = readProcStat(pid);
+        // A zombie has exited and is only waiting to be reaped by its parent
+        return stat !== null && stat.state !== 'Z' && (startTime === undefined || stat.startTime === startTime);
+    }
+
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM means it exists but belongs to someone else
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
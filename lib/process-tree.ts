@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+
+// Kernel clock ticks per second and page size; these are fixed on the
+// platforms we care about (Linux on x86_64/arm64)
+export const CLOCK_TICKS_PER_SECOND = 100;
+export const PAGE_SIZE = 4096;
+
+/**
+ * The subset of /proc/<pid>/stat we use
+ */
+export interface ProcStat {
+    pid: number;
+    ppid: number;
+    /** Single-letter state, e.g. R (running), S (sleeping), Z (zombie) */
+    state: string;
+    /** utime + stime, in clock ticks */
+    cpuTicks: number;
+    /** Start time in clock ticks since boot, stable for the life of the process */
+    startTime: number;
+    rssBytes: number;
+}
+
+/**
+ * Whether process information can be read from /proc on this machine
+ */
+export function isProcAvailable(): boolean {
+    return fs.existsSync('/proc/self/stat');
+}
+
+/**
+ * Read and parse /proc/<pid>/stat, or null if the process is gone
+ */
+export function readProcStat(pid: number): ProcStat | null {
+    let content: string;
+    try {
+        content = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    } catch {
+        return null;
+    }
+
+    // The command name is wrapped in parens and may itself contain spaces or
+    // parens, so split on the last ')'. Field 3 (state) is then index 0.
+    const fields = content.slice(content.lastIndexOf(')') + 2).split(' ');
+    const field = (n: number) => Number(fields[n - 3]);
+
+    return {
+        pid,
+        ppid: field(4),
+        state: fields[0],
+        cpuTicks: field(14) + field(15),
+        startTime: field(22),
+        rssBytes: field(24) * PAGE_SIZE,
+    };
+}
+
+/**
+ * Read every process currently visible in /proc
+ */
+export function listProcesses(): ProcStat[] {
+    let entries: string[];
+    try {
+        entries = fs.readdirSync('/proc');
+    } catch {
+        return [];
+    }
+
+    const result: ProcStat[] = [];
+    for (const entry of entries) {
+        if (!/^\d+$/.test(entry)) continue;
+
+        const stat = readProcStat(Number(entry));
+        if (stat) result.push(stat);
+    }
+    return result;
+}
+
+/**
+ * Get a process and all of its descendants, root first
+ */
+export function getProcessTree(rootPid: number, processes: ProcStat[] = listProcesses()): ProcStat[] {
+    const byPid = new Map<number, ProcStat>();
+    const children = new Map<number, ProcStat[]>();
+
+    for (const proc of processes) {
+        byPid.set(proc.pid, proc);
+        const siblings = children.get(proc.ppid);
+        if (siblings) {
+            siblings.push(proc);
+        } else {
+            children.set(proc.ppid, [proc]);
+        }
+    }
+
+    const root = byPid.get(rootPid);
+    if (!root) return [];
+
+    const tree: ProcStat[] = [];
+    const queue = [root];
+    while (queue.length > 0) {
+        const proc = queue.shift()!;
+        tree.push(proc);
+        queue.push(...(children.get(proc.pid) ?? []));
+    }
+    return tree;
+}
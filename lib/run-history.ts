@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import { dataPath } from './storage';
+import type { RunRecord } from './types';
+
+// Older runs are dropped when the history file is compacted
+const MAX_RUNS_PER_SERVICE = 500;
+const COMPACT_THRESHOLD_BYTES = 1024 * 1024;
+
+const historyPath = (serviceId: string) => dataPath('runs', `${serviceId}.jsonl`);
+
+/**
+ * Append a run record to a service's history. A run is written once when it
+ * starts and again when it ends; readers keep the last line per runId.
+ */
+export function appendRunRecord(record: RunRecord): void {
+    const filePath = historyPath(record.serviceId);
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n', 'utf-8');
+
+    if (fs.statSync(filePath).size > COMPACT_THRESHOLD_BYTES) {
+        compactRunHistory(record.serviceId);
+    }
+}
+
+/**
+ * Read a service's runs, newest first
+ */
+export function readRunHistory(serviceId: string, limit = MAX_RUNS_PER_SERVICE): RunRecord[] {
+    let content: string;
+    try {
+        content = fs.readFileSync(historyPath(serviceId), 'utf-8');
+    } catch {
+        return [];
+    }
+
+    const runs = new Map<string, RunRecord>();
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+
+        try {
+            const record = JSON.parse(line) as RunRecord;
+            // Re-insert so the map stays ordered by the latest write
+            runs.delete(record.runId);
+            runs.set(record.runId, record);
+        } catch {
+            // Skip a torn line from a crash mid-write
+        }
+    }
+
+    return Array.from(runs.values())
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, limit);
+}
+
+/**
+ * Rewrite the history file with only the latest record of the most recent runs
+ */
+function compactRunHistory(serviceId: string): void {
+    const runs = readRunHistory(serviceId, MAX_RUNS_PER_SERVICE).reverse();
+    const tmpPath = `${historyPath(serviceId)}.tmp`;
+
+    fs.writeFileSync(tmpPath, runs.map(run => JSON.stringify(run) + '\n').join(''), 'utf-8');
+    fs.renameSync(tmpPath, historyPath(serviceId));
+}
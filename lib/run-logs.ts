@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR, dataPath } from './storage';
+import type { LogEntry, PersistLogsConfig } from './types';
+
+export const DEFAULT_LOG_MAX_FILE_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_LOG_MAX_AGE_DAYS = 7;
+export const DEFAULT_LOG_MAX_RUNS = 20;
+
+const logDir = (serviceId: string) => path.join(DATA_DIR, 'logs', serviceId);
+const logPath = (serviceId: string, runId: string) => dataPath('logs', serviceId, `${runId}.jsonl`);
+// Only one rotated file is kept per run, so a run uses at most twice maxFileBytes
+const rotatedLogPath = (serviceId: string, runId: string) => dataPath('logs', serviceId, `${runId}.1.jsonl`);
+
+/**
+ * Normalise the `persistLogs` option, returning undefined when it is off
+ */
+export function resolvePersistLogs(option: boolean | PersistLogsConfig | undefined): Required<PersistLogsConfig> | undefined {
+    if (!option) return undefined;
+
+    const config = option === true ? {} : option;
+    return {
+        maxFileBytes: config.maxFileBytes ?? DEFAULT_LOG_MAX_FILE_BYTES,
+        maxAgeDays: config.maxAgeDays ?? DEFAULT_LOG_MAX_AGE_DAYS,
+        maxRuns: config.maxRuns ?? DEFAULT_LOG_MAX_RUNS,
+    };
+}
+
+/**
+ * Appends the log entries of one run to its file as JSON lines, rotating the
+ * file once it grows past the size limit
+ */
+export class RunLogWriter {
+    private serviceId: string;
+    private runId: string;
+    private maxFileBytes: number;
+    private fd: number | null;
+    private size: number;
+
+    constructor(serviceId: string, runId: string, maxFileBytes: number) {
+        this.serviceId = serviceId;
+        this.runId = runId;
+        this.maxFileBytes = maxFileBytes;
+        // Append so an adopted run keeps the output of the previous hub session
+        this.fd = fs.openSync(logPath(serviceId, runId), 'a');
+        this.size = fs.fstatSync(this.fd).size;
+    }
+
+    write(entry: LogEntry): void {
+        if (this.fd === null) return;
+
+        const line = JSON.stringify(entry) + '\n';
+        try {
+            if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxFileBytes) {
+                this.rotate();
+            }
+            this.size += fs.writeSync(this.fd, line);
+        } catch (error) {
+            // Stop writing rather than failing every log line, e.g. when the disk is full
+            console.error(`[RunLogs] Failed to write logs for '${this.serviceId}', disabling the log file:`, error);
+            this.close();
+        }
+    }
+
+    close(): void {
+        if (this.fd === null) return;
+
+        fs.closeSync(this.fd);
+        this.fd = null;
+    }
+
+    private rotate(): void {
+        fs.closeSync(this.fd!);
+        fs.renameSync(logPath(this.serviceId, this.runId), rotatedLogPath(this.serviceId, this.runId));
+        this.fd = fs.openSync(logPath(this.serviceId, this.runId), 'a');
+        this.size = 0;
+    }
+}
+
+/**
+ * List the runs of a service that have logs on disk, newest first
+ */
+export function listRunLogs(serviceId: string): Array<{ runId: string; modifiedAt: number; sizeBytes: number }> {
+    let files: string[];
+    try {
+        files = fs.readdirSync(logDir(serviceId));
+    } catch {
+        return [];
+    }
+
+    const runs = new Map<string, { runId: string; modifiedAt: number; sizeBytes: number }>();
+    for (const file of files) {
+        if (!file.endsWith('.jsonl')) continue;
+
+        const runId = file.split('.')[0];
+        const stat = fs.statSync(path.join(logDir(serviceId), file));
+        const run = runs.get(runId) ?? { runId, modifiedAt: 0, sizeBytes: 0 };
+        run.modifiedAt = Math.max(run.modifiedAt, stat.mtimeMs);
+        run.sizeBytes += stat.size;
+        runs.set(runId, run);
+    }
+
+    return Array.from(runs.values()).sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+/**
+ * Read the last `limit` entries logged by a run
+ */
+export function readRunLogs(serviceId: string, runId: string, limit: number): { entries: LogEntry[]; truncated: boolean } {
+    const entries: LogEntry[] = [];
+
+    for (const filePath of [rotatedLogPath(serviceId, runId), logPath(serviceId, runId)]) {
+        let content: string;
+        try {
+            content = fs.readFileSync(filePath, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        for (const line of content.split('\n')) {
+            if (!line) continue;
+            try {
+                entries.push(JSON.parse(line) as LogEntry);
+            } catch {
+                // Skip a torn line from a crash mid-write
+            }
+        }
+    }
+
+    return {
+        // slice(-0) would return everything
+        entries: limit > 0 ? entries.slice(-limit) : [],
+        truncated: entries.length > limit,
+    };
+}
+
+/**
+ * Delete run logs past the age and count limits, always keeping `keepRunId`
+ */
+export function pruneRunLogs(serviceId: string, limits: Required<PersistLogsConfig>, keepRunId: string): void {
+    const cutoff = Date.now() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+    const runs = listRunLogs(serviceId).filter(run => run.runId !== keepRunId);
+
+    runs.forEach((run, index) => {
+        // The current run counts towards maxRuns
+        if (index + 1 >= limits.maxRuns || run.modifiedAt < cutoff) {
+            fs.rmSync(logPath(serviceId, run.runId), { force: true });
+            fs.rmSync(rotatedLogPath(serviceId, run.runId), { force: true });
+        }
+    });
+}
@@ -1,226 +1,1689 @@
-import { spawn, ChildProcess } from 'child_process';
+import { spawn, exec, ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
 import { EventEmitter } from 'events';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import treeKill from 'tree-kill';
+import type { IPty } from 'node-pty';
+import { getDependencies, resolveStartOrder, resolveStopWaves } from './dependency-graph';
+import { parseConfig, validateServiceConfig } from './config-schema';
+import { CONFIG_FILE_NAMES, configFormat, findConfigFile, findConfigFiles, parseConfigText, stringifyConfig } from './config-file';
+import { waitForPort } from './wait-conditions';
+import {
+    runHealthProbe,
+    DEFAULT_HEALTH_INTERVAL_MS,
+    DEFAULT_HEALTH_RETRIES,
+    DEFAULT_STARTUP_TIMEOUT_MS,
+} from './health-check';
+import { CLOCK_TICKS_PER_SECOND, getProcessTree, isProcAvailable, listProcesses } from './process-tree';
+import { findListeningSockets, readListeningSockets, socketUrl, type ListeningSocket } from './listening-ports';
+import {
+    getProcessStartTime,
+    isProcessAlive,
+    loadProcessRecords,
+    removeProcessRecord,
+    saveProcessRecord,
+    type ProcessRecord,
+} from './process-registry';
+import { appendRunRecord, readRunHistory } from './run-history';
+import { applyLogFilter, type LogFilter } from './log-filter';
+import { LineAssembler } from './line-assembler';
+import { stripAnsi } from './ansi';
+import { deliverNotification, sinkMatches } from './notifications';
+import { LogRingBuffer } from './log-buffer';
+import { createLogParser, type ParsedLogLine } from './log-parser';
+import { RunLogWriter, listRunLogs, pruneRunLogs, readRunLogs, resolvePersistLogs } from './run-logs';
+import { writeFileAtomic } from './storage';
+import { describeEnv, resolveService } from './env';
 import type {
     ServiceConfig,
     ServiceStatus,
     ServiceInfo,
     ServicesConfigFile,
+    ConfigIssue,
+    ConfigChangeEvent,
+    ServiceEnvResponse,
+    ServiceProfile,
+    ProfileListResponse,
+    ProfileSwitchResponse,
+    ServiceAction,
+    ServiceActionResult,
     LogEntry,
+    ServiceDependency,
+    HealthStatus,
+    HealthProbeResult,
+    MetricsSample,
+    HubSettings,
+    RunRecord,
+    RunTrigger,
+    AlertRule,
+    ServiceAlert,
+    NotificationEventType,
+    ServiceNotification,
 } from './types';
 
+// Entries read back from a persisted log file
 const MAX_LOG_ENTRIES = 10000;
-const CONFIG_PATH = path.join(process.cwd(), 'services.json');
+const DEFAULT_LOG_BUFFER_BYTES = 5 * 1024 * 1024;
+// Holds services.json, services.yaml or services.toml
+const CONFIG_DIR = process.cwd();
+// Editors save in several steps, reload once they have settled
+const CONFIG_RELOAD_DELAY_MS = 300;
+
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_RESTART_DELAY_MS = 1000;
+const DEFAULT_MAX_RESTART_DELAY_MS = 30000;
+// A run that stays up at least this long resets the crash-loop counter
+const STABLE_UPTIME_MS = 10000;
+const DEFAULT_DEPENDENCY_TIMEOUT_MS = 30000;
+const DEFAULT_STOP_SIGNAL = 'SIGTERM';
+const DEFAULT_STOP_TIMEOUT_MS = 5000;
+// How long to wait for the exit event after SIGKILL before giving up
+const KILL_TIMEOUT_MS = 5000;
+const DEFAULT_TERMINAL_SIZE = { cols: 120, rows: 30 };
+const METRICS_INTERVAL_MS = 2000;
+// Five minutes of history at the sampling interval
+const MAX_METRICS_SAMPLES = 150;
+// How often adopted processes (which are not our children) are checked for liveness
+const ADOPTED_POLL_INTERVAL_MS = 1000;
+// How long an unterminated line is held back waiting for the rest of it
+const LINE_FLUSH_MS = 200;
+// Alerts kept for GET /api/alerts, across all services
+const MAX_ALERTS = 500;
 
 interface RunningService {
     config: ServiceConfig;
-    process: ChildProcess;
+    run: RunRecord;
+    process?: ChildProcess;
+    pty?: IPty;
+    env: NodeJS.ProcessEnv;
+    /** Working directory with `~` and variables resolved */
+    cwd: string;
     status: ServiceStatus;
+    spawned: boolean;
     pid?: number;
     startedAt?: Date;
     error?: string;
-    logBuffer: LogEntry[];
+    /** Output of this and earlier runs, split by separator entries */
+    logBuffer: LogRingBuffer;
+    /** Sequence number of this run's first log entry, its separator */
+    firstLogSeq: number;
+    /** On-disk log file of this run, when `persistLogs` is on */
+    logWriter?: RunLogWriter;
+    /** Line buffers of stdout and stderr, flushed when the process exits */
+    lineAssemblers: LineAssembler[];
+    logParser?: (line: string) => ParsedLogLine | null;
+    alertRules: Array<{ rule: AlertRule; pattern: RegExp }>;
     subscribers: Set<(entry: LogEntry) => void>;
+    restartCount: number;
+    consecutiveCrashes: number;
+    restartTimer?: NodeJS.Timeout;
+    stopRequested?: boolean;
+    health?: HealthStatus;
+    lastProbe?: HealthProbeResult;
+    healthTimer?: NodeJS.Timeout;
+    startupTimer?: NodeJS.Timeout;
+    exited: boolean;
+    exitPromise: Promise<void>;
+    resolveExit: () => void;
+    exitCode?: number | null;
+    exitSignal?: NodeJS.Signals | null;
+    metrics: MetricsSample[];
+    // CPU ticks per PID at the previous sample, to compute deltas
+    cpuTicksByPid: Map<number, number>;
+    lastSampleAt?: number;
+    listening: ListeningSocket[];
+    // Left running by a previous hub process and picked up again on boot
+    adopted?: boolean;
+    livenessTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Load node-pty on demand so services without `pty` never need the native module
+ */
+async function loadNodePty(): Promise<typeof import('node-pty')> {
+    try {
+        return await import('node-pty');
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`PTY mode requires the node-pty native module: ${message}`);
+    }
+}
+
+/**
+ * Map a signal number reported by node-pty back to its name
+ */
+function signalNameFromNumber(signal: number): NodeJS.Signals | null {
+    const entry = Object.entries(os.constants.signals).find(([, value]) => value === signal);
+    return entry ? entry[0] as NodeJS.Signals : null;
+}
+
+/**
+ * Whether two definitions of a service are the same
+ */
+function sameConfig(a: ServiceConfig, b: ServiceConfig): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Apply a profile's override for a service to its definition
+ */
+function withProfile(config: ServiceConfig, profile: ServiceProfile | undefined): ServiceConfig {
+    const override = profile?.overrides?.[config.id];
+    if (!override) return config;
+
+    return {
+        ...config,
+        command: override.command ?? config.command,
+        env: override.env ? { ...config.env, ...override.env } : config.env,
+    };
+}
+
+/**
+ * Run `task` for each item, at most `limit` at a time, taking items in order
+ */
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Throw on the first error in a definition submitted through the API
+ */
+function assertValidService(config: ServiceConfig, services: Map<string, ServiceConfig>): void {
+    const error = validateServiceConfig(config).find(issue => issue.severity === 'error');
+    if (error) {
+        throw new Error(`${error.path} ${error.message}`);
+    }
+
+    // Unknown dependencies and cycles would leave the service out on reload
+    resolveStartOrder(new Map(services).set(config.id, config), [config.id]);
 }
 
 class ServiceManager extends EventEmitter {
     private services: Map<string, ServiceConfig> = new Map();
+    // Removed from services.json while running, listed until they are stopped
+    private removedServices: Map<string, ServiceConfig> = new Map();
+    private configWatcher?: fs.FSWatcher;
+    private configReloadTimer?: NodeJS.Timeout;
+    private settings: HubSettings = {};
+    private profiles: Record<string, ServiceProfile> = {};
+    // Selected profile, whose overrides apply to every start
+    private activeProfile: string | null = null;
     private running: Map<string, RunningService> = new Map();
+    // Services waiting on their dependencies before being spawned
+    private pendingStarts: Set<string> = new Set();
+    // Last terminal size reported by a viewer, applied to pty services
+    private terminalSizes: Map<string, { cols: number; rows: number }> = new Map();
+    // Log subscribers per service, shared by all its runs so a viewer opened
+    // before a run starts sees it from its first line
+    private logSubscribers: Map<string, Set<(entry: LogEntry) => void>> = new Map();
+    private metricsTimer?: NodeJS.Timeout;
+    // Most recent alerts, oldest first
+    private alerts: ServiceAlert[] = [];
+    // Per service: alerts raised since the last clear, which outlives the alerts list
+    private alertSummaries: Map<string, { count: number; last: ServiceAlert }> = new Map();
+    // Last time each rule fired, keyed by `<service id>:<rule index>`, kept across restarts
+    private alertCooldowns: Map<string, number> = new Map();
+    // Seeded from the clock so ids keep increasing across hub restarts and
+    // a client resuming with an id from the previous session misses nothing
+    private nextLogSeq = Date.now() * 1000;
     private initialized = false;
 
     constructor() {
         super();
         this.setMaxListeners(100); // Allow many subscribers
+
+        this.on('status', event => this.notifyStatus(event));
+        this.on('alert', (alert: ServiceAlert) => this.notifyAlert(alert));
+        this.on('status', event => {
+            if (this.removedServices.has(event.id) && !this.isLive(event.id)) {
+                this.forgetService(event.id);
+            }
+        });
     }
 
     /**
-     * Load service definitions from services.json
+     * Load service definitions from services.json, services.yaml or services.toml
      */
     loadServices(): void {
         if (this.initialized) return;
 
         try {
-            if (fs.existsSync(CONFIG_PATH)) {
-                const content = fs.readFileSync(CONFIG_PATH, 'utf-8');
-                const config: ServicesConfigFile = JSON.parse(content);
-
+            const loaded = this.readConfigFile();
+            if (loaded) {
+                // Invalid entries are left out so the rest of the file still loads
+                const { file, config, issues } = loaded;
+
+                this.settings = config.settings ?? {};
+                this.profiles = config.profiles ?? {};
+                if (this.activeProfile !== null && !this.profiles[this.activeProfile]) {
+                    console.log(`[ServiceManager] Profile '${this.activeProfile}' was removed, deselecting it`);
+                    this.activeProfile = null;
+                }
                 for (const service of config.services) {
                     this.services.set(service.id, service);
                 }
 
-                console.log(`[ServiceManager] Loaded ${this.services.size} services`);
+                console.log(`[ServiceManager] Loaded ${this.services.size} services from ${file}`);
+
+                for (const issue of issues) {
+                    const log = issue.severity === 'error' ? console.error : console.warn;
+                    log(`[ServiceManager] ${file} ${issue.path}: ${issue.message}`);
+                }
             } else {
-                console.log('[ServiceManager] No services.json found');
+                console.log(`[ServiceManager] No config file found (${CONFIG_FILE_NAMES.join(', ')})`);
             }
         } catch (error) {
             console.error('[ServiceManager] Failed to load services:', error);
         }
 
-        this.initialized = true;
+        this.initialized = true;
+        this.watchConfig();
+    }
+
+    /**
+     * Read and check the config file in use, reporting the config files it
+     * shadows. Returns null when there is no config file (internal)
+     */
+    private readConfigFile(): { file: string; config: ServicesConfigFile; issues: ConfigIssue[] } | null {
+        const [filePath, ...shadowed] = findConfigFiles(CONFIG_DIR);
+        if (!filePath) return null;
+
+        const file = path.basename(filePath);
+        const { config, issues } = parseConfig(fs.readFileSync(filePath, 'utf-8'), configFormat(filePath));
+        for (const other of shadowed) {
+            issues.push({ path: '$', message: `${path.basename(other)} is ignored, ${file} takes precedence`, severity: 'warning' });
+        }
+
+        return { file, config, issues };
+    }
+
+    /**
+     * Reload the config whenever it changes on disk. The directory is watched
+     * rather than the file, since editors often save by replacing it (internal)
+     */
+    private watchConfig(): void {
+        if (this.configWatcher) return;
+
+        try {
+            this.configWatcher = fs.watch(CONFIG_DIR, (_event, filename) => {
+                if (!filename || !CONFIG_FILE_NAMES.includes(filename)) return;
+
+                clearTimeout(this.configReloadTimer);
+                this.configReloadTimer = setTimeout(() => this.reloadChangedConfig(), CONFIG_RELOAD_DELAY_MS);
+            });
+            this.configWatcher.unref();
+        } catch (error) {
+            console.error('[ServiceManager] Failed to watch the config file:', error);
+        }
+    }
+
+    /**
+     * Reload after an edit on disk, unless the file is missing or unreadable,
+     * which is usually a save in progress rather than every service being removed (internal)
+     */
+    private reloadChangedConfig(): void {
+        const loaded = this.readConfigFile();
+        if (!loaded) {
+            console.error('[ServiceManager] Config file was removed, keeping the loaded config');
+            return;
+        }
+
+        const unreadable = loaded.issues.find(issue => issue.path === '$' && issue.severity === 'error');
+        if (unreadable) {
+            console.error(`[ServiceManager] ${loaded.file} ${unreadable.message}, keeping the loaded config`);
+            return;
+        }
+
+        this.reloadServices('file');
+    }
+
+    /**
+     * Check the config file as it is on disk now, which may differ from what was loaded
+     */
+    validateConfigFile(): { file: string; issues: ConfigIssue[] } {
+        const loaded = this.readConfigFile();
+        return loaded
+            ? { file: loaded.file, issues: loaded.issues }
+            : { file: path.basename(findConfigFile(CONFIG_DIR)), issues: [] };
+    }
+
+    /**
+     * Get the hub-wide settings from the config file
+     */
+    getSettings(): HubSettings {
+        this.loadServices();
+        return this.settings;
+    }
+
+    /**
+     * Reload services.json and apply what changed. A removed service that is
+     * still running stays listed until stopped, or is stopped right away by
+     * `removedServicePolicy`. A changed running service keeps its old definition
+     * and is reported as outdated, unless `restartOnConfigChange` restarts it.
+     * Emits 'config' and returns the change, or null when nothing changed.
+     */
+    reloadServices(source: ConfigChangeEvent['source'] = 'file'): ConfigChangeEvent | null {
+        const previous = new Map(this.services);
+        this.initialized = false;
+        this.services.clear();
+        this.loadServices();
+
+        const change: ConfigChangeEvent = {
+            id: randomUUID(),
+            timestamp: new Date().toISOString(),
+            source,
+            added: [],
+            removed: [],
+            changed: [],
+            restarted: [],
+            stopped: [],
+        };
+        for (const [id, config] of this.services) {
+            const before = previous.get(id);
+            if (!before) {
+                change.added.push(id);
+            } else if (!sameConfig(before, config)) {
+                change.changed.push(id);
+            }
+        }
+        for (const id of previous.keys()) {
+            if (!this.services.has(id)) change.removed.push(id);
+        }
+
+        if (change.added.length === 0 && change.removed.length === 0 && change.changed.length === 0) {
+            return null;
+        }
+
+        // Changes made through the API already stopped or restarted what they touch
+        const applyPolicies = source === 'file';
+
+        for (const id of change.added) {
+            this.removedServices.delete(id);
+        }
+        for (const id of change.removed) {
+            if (!this.isLive(id)) {
+                this.forgetService(id);
+                continue;
+            }
+
+            this.removedServices.set(id, previous.get(id)!);
+            if (applyPolicies && this.settings.removedServicePolicy === 'stop') {
+                change.stopped.push(id);
+                this.stopService(id).catch(error => {
+                    console.error(`[ServiceManager] Failed to stop removed service '${id}':`, error);
+                });
+            }
+        }
+        for (const id of change.changed) {
+            if (applyPolicies && this.isLive(id) && this.services.get(id)!.restartOnConfigChange) {
+                change.restarted.push(id);
+                this.restartService(id, 'file-watch').catch(error => {
+                    console.error(`[ServiceManager] Failed to restart '${id}' on config change:`, error);
+                });
+            }
+        }
+
+        const summary = (['added', 'removed', 'changed'] as const)
+            .filter(key => change[key].length > 0)
+            .map(key => `${key} ${change[key].join(', ')}`)
+            .join('; ');
+        console.log(`[ServiceManager] Config changed: ${summary}`);
+
+        this.emit('config', change);
+        return change;
+    }
+
+    /**
+     * Drop the runtime state of a service that is no longer defined (internal)
+     */
+    private forgetService(id: string): void {
+        this.removedServices.delete(id);
+        this.running.get(id)?.logWriter?.close();
+        this.running.delete(id);
+        this.terminalSizes.delete(id);
+        this.alertSummaries.delete(id);
+    }
+
+    /**
+     * Resolve a service's command, cwd and environment as its next start would see them
+     */
+    getServiceEnv(id: string): ServiceEnvResponse | null {
+        this.loadServices();
+
+        const config = this.services.get(id) ?? this.removedServices.get(id);
+        if (!config) return null;
+
+        const resolved = resolveService(this.withActiveProfile(config));
+        return {
+            command: resolved.command,
+            cwd: resolved.cwd,
+            env: describeEnv(resolved),
+            warnings: resolved.warnings,
+        };
+    }
+
+    /**
+     * List the profiles defined in the config file and the selected one
+     */
+    getProfiles(): ProfileListResponse {
+        this.loadServices();
+
+        return {
+            profiles: Object.entries(this.profiles).map(([name, profile]) => ({ name, ...profile })),
+            active: this.activeProfile,
+        };
+    }
+
+    /**
+     * Select a profile: stop the services it does not need, restart those
+     * whose overrides change, and start its services with their dependencies.
+     * Selecting null only clears the overrides, restarting the services they
+     * applied to. Emits 'profile' with what was done.
+     */
+    async switchProfile(name: string | null): Promise<ProfileSwitchResponse> {
+        this.loadServices();
+
+        const profile = name === null ? undefined : this.profiles[name];
+        if (name !== null && !profile) {
+            throw new Error(`Profile '${name}' not found`);
+        }
+
+        // Work out everything that can fail before changing anything
+        const previous = this.activeProfile === null ? undefined : this.profiles[this.activeProfile];
+        const ids = profile ? profile.services.filter(id => this.services.has(id)) : [];
+        const wanted = new Set(profile ? resolveStartOrder(this.services, ids) : this.services.keys());
+        const overridden = [...this.services.values()]
+            .filter(config => !sameConfig(withProfile(config, previous), withProfile(config, profile)))
+            .map(config => config.id);
+
+        const result: ProfileSwitchResponse = { active: name, started: [], stopped: [], restarted: [] };
+        this.activeProfile = name;
+        console.log(`[ServiceManager] Switching to ${name === null ? 'no profile' : `profile '${name}'`}`);
+
+        result.stopped = [...this.running.keys()].filter(id => this.isActive(id) && !wanted.has(id));
+        await this.stopServices(result.stopped);
+
+        for (const id of overridden) {
+            if (!this.isActive(id)) continue;
+
+            try {
+                await this.restartService(id, 'profile');
+                result.restarted.push(id);
+            } catch (error) {
+                console.error(`[ServiceManager] Failed to restart '${id}' for the profile:`, error instanceof Error ? error.message : error);
+            }
+        }
+
+        const inactive = profile ? [...wanted].filter(id => !this.isActive(id)) : [];
+        await this.startServices(ids, 'profile');
+        result.started = inactive.filter(id => this.isActive(id));
+
+        this.emit('profile', result);
+        return result;
+    }
+
+    /**
+     * A service's definition with the selected profile's override applied (internal)
+     */
+    private withActiveProfile(config: ServiceConfig): ServiceConfig {
+        return withProfile(config, this.activeProfile === null ? undefined : this.profiles[this.activeProfile]);
+    }
+
+    /**
+     * Add a service to services.json
+     */
+    createService(config: ServiceConfig): ServiceInfo {
+        this.loadServices();
+        assertValidService(config, this.services);
+
+        if (this.services.has(config.id)) {
+            throw new Error(`Service '${config.id}' already exists`);
+        }
+
+        this.writeConfig(file => {
+            file.services.push(config);
+        });
+        console.log(`[ServiceManager] Created service '${config.id}'`);
+
+        return this.getService(config.id)!;
+    }
+
+    /**
+     * Replace a service's definition in services.json. A live service is only
+     * changed with `restart`, and then comes back up on the new definition.
+     */
+    async updateService(id: string, config: ServiceConfig, options: { restart?: boolean } = {}): Promise<ServiceInfo> {
+        this.loadServices();
+
+        if (!this.services.has(id)) {
+            throw new Error(`Service '${id}' not found`);
+        }
+        if (config.id !== id) {
+            throw new Error('The id of a service cannot be changed');
+        }
+        assertValidService(config, this.services);
+
+        const live = this.isLive(id);
+        if (live && !options.restart) {
+            throw new Error(`Service '${id}' is running, stop it or confirm a restart`);
+        }
+
+        this.writeConfig(file => {
+            file.services = file.services.map(service => (service.id === id ? config : service));
+        });
+        console.log(`[ServiceManager] Updated service '${id}'`);
+
+        return live ? this.restartService(id) : this.getService(id)!;
+    }
+
+    /**
+     * Remove a service from services.json. A live service is only removed with
+     * `stop`, and is stopped first.
+     */
+    async deleteService(id: string, options: { stop?: boolean } = {}): Promise<void> {
+        this.loadServices();
+
+        if (!this.services.has(id)) {
+            throw new Error(`Service '${id}' not found`);
+        }
+
+        const dependents = [...this.services.values()]
+            .filter(config => getDependencies(config).some(dep => dep.id === id))
+            .map(config => config.id);
+        if (dependents.length > 0) {
+            throw new Error(`Service '${id}' is a dependency of ${dependents.join(', ')}`);
+        }
+
+        if (this.isLive(id)) {
+            if (!options.stop) {
+                throw new Error(`Service '${id}' is running, stop it before deleting`);
+            }
+            await this.stopService(id);
+        }
+
+        this.writeConfig(file => {
+            file.services = file.services.filter(service => service.id !== id);
+        });
+        console.log(`[ServiceManager] Deleted service '${id}'`);
+    }
+
+    /**
+     * Add converted definitions to the config file. Definitions that are
+     * invalid or whose id is taken are skipped with the reason.
+     */
+    importServices(configs: ServiceConfig[]): { imported: string[]; skipped: Array<{ id: string; reason: string }> } {
+        this.loadServices();
+
+        const imported: ServiceConfig[] = [];
+        const skipped: Array<{ id: string; reason: string }> = [];
+        for (const config of configs) {
+            if (this.services.has(config.id) || imported.some(service => service.id === config.id)) {
+                skipped.push({ id: config.id, reason: 'a service with this id already exists' });
+                continue;
+            }
+
+            const error = validateServiceConfig(config).find(issue => issue.severity === 'error');
+            if (error) {
+                skipped.push({ id: config.id, reason: `${error.path} ${error.message}` });
+                continue;
+            }
+
+            imported.push(config);
+        }
+
+        // Drop those whose dependencies are missing, which can leave others' missing in turn
+        for (let dropped = true; dropped;) {
+            dropped = false;
+            const services = new Map([...this.services, ...imported.map(config => [config.id, config] as const)]);
+            for (const config of imported) {
+                try {
+                    resolveStartOrder(services, [config.id]);
+                } catch (error) {
+                    skipped.push({ id: config.id, reason: error instanceof Error ? error.message : String(error) });
+                    imported.splice(imported.indexOf(config), 1);
+                    dropped = true;
+                    break;
+                }
+            }
+        }
+
+        if (imported.length > 0) {
+            this.writeConfig(file => {
+                file.services.push(...imported);
+            });
+            console.log(`[ServiceManager] Imported ${imported.length} service(s)`);
+        }
+
+        return { imported: imported.map(service => service.id), skipped };
+    }
+
+    /**
+     * Whether a service has a process, or a restart pending, that a change to
+     * its definition would pull the config out from under
+     */
+    isLive(id: string): boolean {
+        const status = this.running.get(id)?.status;
+        return status !== undefined && status !== 'stopped' && status !== 'error' && status !== 'crash-loop';
+    }
+
+    /**
+     * Apply a change to the config file with an atomic write, keeping its
+     * format, then reload it. A file without services is treated as an empty
+     * list, one whose services are not a list is left alone (internal)
+     */
+    private writeConfig(change: (file: ServicesConfigFile) => void): void {
+        const filePath = findConfigFile(CONFIG_DIR);
+        const format = configFormat(filePath);
+        const file = (fs.existsSync(filePath)
+            ? parseConfigText(fs.readFileSync(filePath, 'utf-8'), format)
+            : { services: [] }) as ServicesConfigFile;
+
+        if (typeof file !== 'object' || file === null || Array.isArray(file)) {
+            throw new Error(`${path.basename(filePath)} must be an object with a services array`);
+        }
+        file.services ??= [];
+        if (!Array.isArray(file.services)) {
+            throw new Error(`services in ${path.basename(filePath)} must be an array`);
+        }
+
+        change(file);
+        writeFileAtomic(filePath, stringifyConfig(file, format));
+        this.reloadServices('api');
+    }
+
+    /**
+     * Get all services with their current status
+     */
+    getAllServices(): ServiceInfo[] {
+        this.loadServices();
+
+        return [...this.services.values(), ...this.removedServices.values()].map(config => this.toServiceInfo(config));
+    }
+
+    /**
+     * Get a single service's info
+     */
+    getService(id: string): ServiceInfo | null {
+        this.loadServices();
+
+        const config = this.services.get(id) ?? this.removedServices.get(id);
+        if (!config) return null;
+
+        return this.toServiceInfo(config);
+    }
+
+    /**
+     * Build the public view of a service from its config and runtime state (internal)
+     */
+    private toServiceInfo(config: ServiceConfig): ServiceInfo {
+        const running = this.running.get(config.id);
+
+        return {
+            config,
+            status: running?.status ?? 'stopped',
+            pid: running?.pid,
+            startedAt: running?.startedAt?.toISOString(),
+            error: running?.error,
+            restartCount: running?.restartCount ?? 0,
+            health: running?.health,
+            lastProbe: running?.lastProbe,
+            exitCode: running?.exitCode,
+            exitSignal: running?.exitSignal,
+            metrics: running && !running.exited ? running.metrics[running.metrics.length - 1] : undefined,
+            ports: running && !running.exited ? [...new Set(running.listening.map(socket => socket.port))] : undefined,
+            urls: running && !running.exited ? [...new Set(running.listening.map(socketUrl))] : undefined,
+            adopted: running?.adopted,
+            logBuffer: running?.logBuffer.getStats(),
+            alertCount: this.alertSummaries.get(config.id)?.count ?? 0,
+            lastAlert: this.alertSummaries.get(config.id)?.last,
+            configOutdated: running && this.isLive(config.id) && !sameConfig(running.config, config) ? true : undefined,
+            removed: this.removedServices.has(config.id) || undefined,
+        };
+    }
+
+    /**
+     * Whether a service is up or on its way up
+     */
+    isActive(id: string): boolean {
+        const status = this.running.get(id)?.status;
+        return status === 'running' || status === 'starting' || this.pendingStarts.has(id);
+    }
+
+    /**
+     * Start a service, bringing up its dependencies first
+     */
+    async startService(id: string, trigger: RunTrigger = 'user'): Promise<ServiceInfo> {
+        this.loadServices();
+
+        const config = this.services.get(id);
+        if (!config) {
+            throw new Error(`Service '${id}' not found`);
+        }
+
+        // Dependencies come first in the resolved order, the service itself last
+        const order = resolveStartOrder(this.services, [id]);
+        for (const depId of order.slice(0, -1)) {
+            if (!this.isActive(depId)) {
+                await this.startOne(this.services.get(depId)!, 'dependency');
+            }
+        }
+
+        return this.startOne(config, trigger);
+    }
+
+    /**
+     * Start several services in dependency order, skipping those already up.
+     * Failures are logged and do not prevent unrelated services from starting.
+     */
+    async startServices(ids: string[], trigger: RunTrigger = 'user'): Promise<void> {
+        this.loadServices();
+
+        for (const id of resolveStartOrder(this.services, ids)) {
+            if (this.isActive(id)) continue;
+
+            try {
+                await this.startOne(this.services.get(id)!, ids.includes(id) ? trigger : 'dependency');
+            } catch (error) {
+                console.error(`[ServiceManager] Failed to start '${id}':`, error instanceof Error ? error.message : error);
+            }
+        }
+    }
+
+    /**
+     * Start every service marked with autoStart
+     */
+    async startAutoStartServices(): Promise<void> {
+        this.loadServices();
+
+        const ids = Array.from(this.services.values())
+            .filter(config => config.autoStart)
+            .map(config => config.id);
+
+        if (ids.length === 0) return;
+
+        console.log(`[ServiceManager] Auto-starting ${ids.length} service(s)`);
+        await this.startServices(ids, 'auto-start');
+    }
+
+    /**
+     * Start a single service once its dependencies are ready (internal)
+     */
+    private async startOne(config: ServiceConfig, trigger: RunTrigger): Promise<ServiceInfo> {
+        const { id } = config;
+
+        // Check if already running
+        const existing = this.running.get(id);
+        if (existing && (existing.status === 'running' || existing.status === 'starting')) {
+            throw new Error(`Service '${id}' is already ${existing.status}`);
+        }
+        if (this.pendingStarts.has(id)) {
+            throw new Error(`Service '${id}' is already waiting for its dependencies`);
+        }
+
+        // A manual start cancels any pending automatic restart and resets the counters
+        if (existing) {
+            this.cancelRestart(existing);
+        }
+
+        this.pendingStarts.add(id);
+        try {
+            for (const dep of getDependencies(config)) {
+                await this.waitForDependency(id, dep);
+            }
+
+            return await this.spawnService(config, { restartCount: 0, consecutiveCrashes: 0 }, trigger);
+        } finally {
+            this.pendingStarts.delete(id);
+        }
+    }
+
+    /**
+     * Wait until a dependency satisfies its readiness condition (internal)
+     */
+    private async waitForDependency(dependentId: string, dep: ServiceDependency): Promise<void> {
+        const condition = dep.condition ?? 'spawned';
+        const timeoutMs = dep.timeoutMs ?? DEFAULT_DEPENDENCY_TIMEOUT_MS;
+
+        if (!this.isActive(dep.id)) {
+            throw new Error(`Cannot start '${dependentId}': dependency '${dep.id}' is not running`);
+        }
+
+        console.log(`[ServiceManager] '${dependentId}' waiting for '${dep.id}' (${condition})`);
+
+        let ready: Promise<void>;
+        switch (condition) {
+            case 'spawned':
+                ready = this.running.get(dep.id)?.spawned
+                    ? Promise.resolve()
+                    : this.waitForEvent<{ id: string }>(
+                        'status',
+                        event => event.id === dep.id && !!this.running.get(dep.id)?.spawned,
+                        timeoutMs,
+                        `'${dep.id}' to spawn`
+                    );
+                break;
+
+            case 'healthy':
+                // 'running' is only reached once the health check (if any) has passed
+                ready = this.running.get(dep.id)?.status === 'running'
+                    ? Promise.resolve()
+                    : this.waitForEvent<{ id: string; status: string }>(
+                        'status',
+                        event => event.id === dep.id && event.status === 'running',
+                        timeoutMs,
+                        `'${dep.id}' to become healthy`
+                    );
+                break;
+
+            case 'port':
+                if (!dep.port) {
+                    throw new Error(`Dependency '${dep.id}' of '${dependentId}' uses condition 'port' without a port`);
+                }
+                ready = waitForPort(dep.port, dep.host ?? '127.0.0.1', timeoutMs);
+                break;
+
+            case 'log': {
+                if (!dep.pattern) {
+                    throw new Error(`Dependency '${dep.id}' of '${dependentId}' uses condition 'log' without a pattern`);
+                }
+                const pattern = new RegExp(dep.pattern);
+                // Only the current run counts, the buffer also holds the output of earlier runs
+                const depRunning = this.running.get(dep.id);
+                const logged = depRunning?.logBuffer.toArray()
+                    .some(entry => entry.seq >= depRunning.firstLogSeq && pattern.test(entry.data));
+                ready = logged
+                    ? Promise.resolve()
+                    : this.waitForEvent<{ id: string; entry: LogEntry }>(
+                        'log',
+                        event => event.id === dep.id && pattern.test(event.entry.data),
+                        timeoutMs,
+                        `'${dep.id}' to log /${dep.pattern}/`
+                    );
+                break;
+            }
+
+            default:
+                throw new Error(`Unknown dependency condition '${condition}' for '${dep.id}'`);
+        }
+
+        // Give up early if the dependency dies while we are waiting on it
+        let removeHandler = () => {};
+        const died = new Promise<never>((_, reject) => {
+            const handler = (event: { id: string; status: ServiceStatus }) => {
+                if (event.id === dep.id && !this.isActive(dep.id)) {
+                    reject(new Error(`Cannot start '${dependentId}': dependency '${dep.id}' ${event.status} before becoming ready`));
+                }
+            };
+            this.on('status', handler);
+            removeHandler = () => this.off('status', handler);
+        });
+
+        try {
+            await Promise.race([ready, died]);
+        } finally {
+            removeHandler();
+        }
+    }
+
+    /**
+     * Resolve once an emitted event matches the predicate, or reject on timeout (internal)
+     */
+    private waitForEvent<T>(
+        event: string,
+        predicate: (payload: T) => boolean,
+        timeoutMs: number,
+        description: string
+    ): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const handler = (payload: T) => {
+                if (predicate(payload)) {
+                    clearTimeout(timer);
+                    this.off(event, handler);
+                    resolve();
+                }
+            };
+            const timer = setTimeout(() => {
+                this.off(event, handler);
+                reject(new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`));
+            }, timeoutMs);
+
+            this.on(event, handler);
+        });
+    }
+
+    /**
+     * Spawn the service process and wire up its output and lifecycle handlers (internal)
+     */
+    private async spawnService(
+        config: ServiceConfig,
+        counters: Pick<RunningService, 'restartCount' | 'consecutiveCrashes'>,
+        trigger: RunTrigger
+    ): Promise<ServiceInfo> {
+        const { id } = config;
+        const { command, cwd, env, warnings } = resolveService(this.withActiveProfile(config));
+
+        // Validate cwd exists
+        if (!fs.existsSync(cwd)) {
+            throw new Error(`Working directory '${cwd}' does not exist`);
+        }
+
+        console.log(`[ServiceManager] Starting service '${id}': ${command}${config.pty ? ' (pty)' : ''}`);
+
+        let child: ChildProcess | undefined;
+        let pty: IPty | undefined;
+
+        if (config.pty) {
+            const size = this.terminalSizes.get(id) ?? DEFAULT_TERMINAL_SIZE;
+            const { spawn: spawnPty } = await loadNodePty();
+            const [shell, shellArgs] = process.platform === 'win32'
+                ? ['cmd.exe', ['/c', command]]
+                : ['/bin/sh', ['-c', command]];
+
+            pty = spawnPty(shell, shellArgs, {
+                name: 'xterm-256color',
+                cols: size.cols,
+                rows: size.rows,
+                cwd,
+                env,
+            });
+        } else {
+            // Parse command - use shell to handle complex commands
+            child = spawn(command, [], {
+                cwd,
+                env,
+                shell: true,
+                // Own process group, so a Ctrl-C on the hub does not reach services meant to outlive it
+                detached: this.settings.shutdownPolicy === 'leave-running',
+                // Pipe stdout and stderr
+                stdio: ['ignore', 'pipe', 'pipe'],
+            });
+        }
+
+        const startedAt = new Date();
+        const pid = child?.pid ?? pty?.pid;
+        const runningService = this.createRunningService(config, {
+            run: {
+                runId: randomUUID(),
+                serviceId: id,
+                trigger,
+                command,
+                pid,
+                startedAt: startedAt.toISOString(),
+            },
+            process: child,
+            pty,
+            env,
+            cwd,
+            pid,
+            startedAt,
+            ...counters,
+        });
+
+        this.running.get(id)?.logWriter?.close();
+        this.running.set(id, runningService);
+        this.saveRun(runningService.run);
+        this.openLogWriter(runningService);
+        this.addLog(id, `\x1b[90m──── Run started ${startedAt.toLocaleString()} (${trigger}) ────\x1b[0m\n`, 'system');
+        for (const warning of warnings) {
+            this.addLog(id, `\x1b[33m${warning}\x1b[0m\n`, 'system');
+        }
+
+        // A pty echoes keystrokes and draws prompts, so its partial lines are not held back
+        const lineFlushMs = pty ? 0 : LINE_FLUSH_MS;
+        const stdoutLines = new LineAssembler(lineFlushMs, (line, partial) => this.addLog(id, line, 'stdout', partial));
+        const stderrLines = new LineAssembler(lineFlushMs, (line, partial) => this.addLog(id, line, 'stderr', partial));
+        runningService.lineAssemblers = [stdoutLines, stderrLines];
+
+        if (pty) {
+            // A pty merges stdout and stderr into a single stream
+            pty.onData(data => stdoutLines.push(data));
+            pty.onExit(({ exitCode, signal }) => {
+                // Match ChildProcess semantics: no exit code when killed by a signal
+                const signalName = signal ? signalNameFromNumber(signal) : null;
+                this.handleExit(runningService, signalName ? null : exitCode, signalName);
+            });
+
+            // node-pty spawns synchronously, there is no separate spawn event
+            this.handleSpawn(runningService);
+        } else if (child) {
+            // Set encoding to preserve ANSI codes as strings
+            child.stdout?.setEncoding('utf8');
+            child.stderr?.setEncoding('utf8');
+
+            // Handle stdout
+            child.stdout?.on('data', (data: string) => {
+                stdoutLines.push(data);
+            });
+
+            // Handle stderr
+            child.stderr?.on('data', (data: string) => {
+                stderrLines.push(data);
+            });
+
+            child.on('spawn', () => this.handleSpawn(runningService));
+            child.on('error', (error) => this.handleSpawnError(runningService, error));
+            child.on('exit', (code, signal) => this.handleExit(runningService, code, signal));
+        }
+
+        return this.getService(id)!;
+    }
+
+    /**
+     * Reuse the log buffer of the previous run, applying the current size limit (internal)
+     */
+    private createLogBuffer(config: ServiceConfig): LogRingBuffer {
+        const maxBytes = config.logBufferBytes ?? this.settings.logBufferBytes ?? DEFAULT_LOG_BUFFER_BYTES;
+        const buffer = this.running.get(config.id)?.logBuffer;
+
+        if (!buffer) return new LogRingBuffer(maxBytes);
+        buffer.setMaxBytes(maxBytes);
+        return buffer;
+    }
+
+    /**
+     * Compile the service's logParser, logging rather than failing the start on a bad regex (internal)
+     */
+    private buildLogParser(config: ServiceConfig): RunningService['logParser'] {
+        if (!config.logParser) return undefined;
+
+        try {
+            return createLogParser(config.logParser);
+        } catch (error) {
+            console.error(`[ServiceManager] Invalid logParser for '${config.id}', output is kept unparsed:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Compile the service's alert rules, skipping and logging invalid patterns (internal)
+     */
+    private buildAlertRules(config: ServiceConfig): RunningService['alertRules'] {
+        const rules: RunningService['alertRules'] = [];
+
+        for (const rule of config.alerts ?? []) {
+            try {
+                rules.push({ rule, pattern: new RegExp(rule.pattern) });
+            } catch (error) {
+                console.error(`[ServiceManager] Invalid alert pattern for '${config.id}', rule ignored:`, error);
+            }
+        }
+        return rules;
+    }
+
+    /**
+     * Build the runtime entry for a service with everything zeroed (internal)
+     */
+    private createRunningService(
+        config: ServiceConfig,
+        init: Pick<RunningService, 'run' | 'env' | 'cwd' | 'pid' | 'startedAt' | 'restartCount' | 'consecutiveCrashes'>
+            & Partial<RunningService>
+    ): RunningService {
+        let resolveExit = () => {};
+        const exitPromise = new Promise<void>(resolve => {
+            resolveExit = resolve;
+        });
+
+        return {
+            config,
+            status: 'starting',
+            spawned: false,
+            // Keep earlier runs' output, a separator marks where this run starts
+            logBuffer: this.createLogBuffer(config),
+            firstLogSeq: this.nextLogSeq,
+            lineAssemblers: [],
+            logParser: this.buildLogParser(config),
+            alertRules: this.buildAlertRules(config),
+            subscribers: this.getLogSubscribers(config.id),
+            exited: false,
+            exitPromise,
+            resolveExit,
+            metrics: [],
+            cpuTicksByPid: new Map(),
+            listening: [],
+            ...init,
+        };
+    }
+
+    /**
+     * Handle the process having started (internal)
+     */
+    private handleSpawn(running: RunningService): void {
+        const { id } = running.config;
+
+        running.spawned = true;
+        this.ensureMetricsSampler();
+
+        if (running.pid) {
+            this.recordProcess(running);
+        }
+
+        // With a health check, stay 'starting' until the first probe passes
+        if (running.config.healthCheck) {
+            running.health = 'starting';
+            console.log(`[ServiceManager] Service '${id}' spawned (PID: ${running.pid}), waiting for health check`);
+            this.emit('status', { id, status: running.status, pid: running.pid, health: running.health });
+            this.startHealthChecks(running);
+            return;
+        }
+
+        running.status = 'running';
+        console.log(`[ServiceManager] Service '${id}' is now running (PID: ${running.pid})`);
+        this.emit('status', { id, status: 'running', pid: running.pid });
+    }
+
+    /**
+     * Handle a process error, e.g. failure to spawn (internal)
+     */
+    private handleSpawnError(running: RunningService, error: Error): void {
+        const { id } = running.config;
+
+        running.status = 'error';
+        running.error = error.message;
+        console.error(`[ServiceManager] Service '${id}' error:`, error.message);
+        this.emit('status', { id, status: 'error', error: error.message });
+
+        // A process that failed to spawn never emits 'exit'
+        if (!running.spawned) {
+            running.exited = true;
+            running.logWriter?.close();
+            running.logWriter = undefined;
+            this.finishRun(running);
+            running.resolveExit();
+        }
+    }
+
+    /**
+     * Handle the process having exited (internal)
+     */
+    private handleExit(running: RunningService, code: number | null, signal: NodeJS.Signals | null): void {
+        const { id } = running.config;
+        const unexpected = !running.stopRequested && running.status !== 'stopping';
+
+        this.stopHealthChecks(running);
+        clearInterval(running.livenessTimer);
+        running.lineAssemblers.forEach(lines => lines.flush());
+        running.logWriter?.close();
+        running.logWriter = undefined;
+        running.exited = true;
+        running.exitCode = code;
+        running.exitSignal = signal;
+
+        if (running.pid) {
+            this.forgetProcess(id, running.pid);
+        }
+
+        if (unexpected) {
+            // Unexpected exit
+            running.status = code === 0 || running.adopted ? 'stopped' : 'error';
+            if (code !== 0 && !running.adopted) {
+                running.error = `Exited with code ${code}`;
+            }
+        } else if (running.status !== 'error') {
+            // Keep 'error' when we killed the service ourselves, e.g. after a failed startup
+            running.status = 'stopped';
+        }
+
+        this.finishRun(running);
+
+        console.log(`[ServiceManager] Service '${id}' exited (code: ${code}, signal: ${signal})`);
+        this.emit('status', { id, status: running.status, code, signal, unexpected });
+        running.resolveExit();
+
+        // Keep the running service info for a bit to show exit status
+        // but mark it as stopped
+        if (unexpected && !running.adopted) {
+            this.scheduleRestart(running, code);
+        }
+    }
+
+    /**
+     * Get the recorded runs of a service, newest first
+     */
+    getRunHistory(id: string, limit?: number): RunRecord[] {
+        return readRunHistory(id, limit);
+    }
+
+    /**
+     * Complete the run record of an exited service and persist it (internal)
+     */
+    private finishRun(running: RunningService): void {
+        const endedAt = new Date();
+
+        running.run = {
+            ...running.run,
+            endedAt: endedAt.toISOString(),
+            durationMs: endedAt.getTime() - new Date(running.run.startedAt).getTime(),
+            exitCode: running.exitCode,
+            signal: running.exitSignal,
+            error: running.status === 'error' ? running.error : undefined,
+        };
+        this.saveRun(running.run);
+    }
+
+    /**
+     * Append a run record to the history, logging rather than throwing on failure (internal)
+     */
+    private saveRun(run: RunRecord): void {
+        try {
+            appendRunRecord(run);
+        } catch (error) {
+            console.error(`[ServiceManager] Failed to save run history for '${run.serviceId}':`, error);
+        }
+    }
+
+    /**
+     * Persist the PID of a service so a restarted hub can find it (internal)
+     */
+    private recordProcess(running: RunningService): void {
+        try {
+            saveProcessRecord({
+                serviceId: running.config.id,
+                runId: running.run.runId,
+                pid: running.pid!,
+                startTime: getProcessStartTime(running.pid!),
+                startedAt: (running.startedAt ?? new Date()).toISOString(),
+                command: running.config.command,
+            });
+        } catch (error) {
+            console.error(`[ServiceManager] Failed to record process for '${running.config.id}':`, error);
+        }
+    }
+
+    /**
+     * Drop the persisted PID of a service once it has exited (internal)
+     */
+    private forgetProcess(id: string, pid: number): void {
+        try {
+            removeProcessRecord(id, pid);
+        } catch (error) {
+            console.error(`[ServiceManager] Failed to remove process record for '${id}':`, error);
+        }
+    }
+
+    /**
+     * Deal with services left running by a previous hub process. Depending on
+     * the orphanPolicy setting they are either adopted (shown as running and
+     * stoppable, but without their earlier output) or killed.
+     */
+    recoverProcesses(): void {
+        this.loadServices();
+
+        const policy = this.settings.orphanPolicy ?? 'adopt';
+
+        for (const record of loadProcessRecords()) {
+            if (this.running.has(record.serviceId)) continue;
+
+            if (!isProcessAlive(record.pid, record.startTime)) {
+                this.forgetProcess(record.serviceId, record.pid);
+                continue;
+            }
+
+            const config = this.services.get(record.serviceId);
+            if (policy === 'adopt' && config) {
+                this.adoptProcess(config, record);
+            } else {
+                void this.reapProcess(record);
+            }
+        }
+    }
+
+    /**
+     * Take over a live process from a previous hub session (internal)
+     */
+    private adoptProcess(config: ServiceConfig, record: ProcessRecord): void {
+        const { id } = config;
+        const { cwd, env } = resolveService(config);
+        const running = this.createRunningService(config, {
+            // Continue the run that was started by the previous session
+            run: readRunHistory(id).find(run => run.runId === record.runId) ?? {
+                runId: record.runId ?? randomUUID(),
+                serviceId: id,
+                trigger: 'user',
+                command: record.command,
+                pid: record.pid,
+                startedAt: record.startedAt,
+            },
+            env,
+            cwd,
+            pid: record.pid,
+            startedAt: new Date(record.startedAt),
+            restartCount: 0,
+            consecutiveCrashes: 0,
+            status: 'running',
+            spawned: true,
+            adopted: true,
+        });
+
+        // Output from before the hub restarted is only available when it was persisted
+        if (resolvePersistLogs(config.persistLogs)) {
+            readRunLogs(id, running.run.runId, MAX_LOG_ENTRIES).entries.forEach(entry => running.logBuffer.push(entry));
+        }
+
+        this.running.set(id, running);
+        this.openLogWriter(running);
+        console.log(`[ServiceManager] Adopted '${id}' (PID: ${record.pid}) from a previous session`);
+        this.addLog(id, `\x1b[90m[Adopted PID ${record.pid} from a previous hub session, output from now on is not captured]\x1b[0m\n`, 'system');
+
+        // It is not our child, so there is no exit event: poll instead
+        running.livenessTimer = setInterval(() => {
+            if (!isProcessAlive(record.pid, record.startTime)) {
+                this.handleExit(running, null, null);
+            }
+        }, ADOPTED_POLL_INTERVAL_MS);
+        running.livenessTimer.unref();
+
+        this.ensureMetricsSampler();
+        if (config.healthCheck) {
+            running.health = 'starting';
+            this.startHealthChecks(running);
+        }
+
+        this.emit('status', { id, status: running.status, pid: running.pid, adopted: true });
+    }
+
+    /**
+     * Kill a process tree left behind by a previous hub session (internal)
+     */
+    private async reapProcess(record: ProcessRecord): Promise<void> {
+        const { serviceId, pid, startTime } = record;
+        console.log(`[ServiceManager] Reaping leftover process for '${serviceId}' (PID: ${pid})`);
+
+        await this.killTree(pid, DEFAULT_STOP_SIGNAL);
+
+        const deadline = Date.now() + DEFAULT_STOP_TIMEOUT_MS;
+        while (isProcessAlive(pid, startTime) && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        if (isProcessAlive(pid, startTime)) {
+            await this.killTree(pid, 'SIGKILL');
+        }
+
+        this.forgetProcess(serviceId, pid);
     }
 
     /**
-     * Reload services config (useful after changes)
+     * Get the recent resource usage history of a service's process tree
      */
-    reloadServices(): void {
-        this.initialized = false;
-        this.services.clear();
-        this.loadServices();
+    getMetrics(id: string): MetricsSample[] {
+        return this.running.get(id)?.metrics ?? [];
     }
 
     /**
-     * Get all services with their current status
+     * Whether resource usage can be sampled on this platform
      */
-    getAllServices(): ServiceInfo[] {
-        this.loadServices();
-
-        const result: ServiceInfo[] = [];
+    isMetricsSupported(): boolean {
+        return isProcAvailable();
+    }
 
-        for (const [id, config] of this.services) {
-            const running = this.running.get(id);
-
-            result.push({
-                config,
-                status: running?.status ?? 'stopped',
-                pid: running?.pid,
-                startedAt: running?.startedAt?.toISOString(),
-                error: running?.error,
-            });
-        }
+    /**
+     * Start the shared sampling timer if it is not running yet (internal)
+     */
+    private ensureMetricsSampler(): void {
+        if (this.metricsTimer || !isProcAvailable()) return;
 
-        return result;
+        this.metricsTimer = setInterval(() => this.sampleMetrics(), METRICS_INTERVAL_MS);
+        this.metricsTimer.unref();
     }
 
     /**
-     * Get a single service's info
+     * Sample CPU, RSS and listening ports for the process tree of every live
+     * service (internal)
+     *
+     * CPU usage is the sum of per-process tick deltas since the previous
+     * sample, so processes that exit in between do not skew the result.
+     * Ports are found by mapping the tree's socket inodes to /proc/net/tcp{,6}.
      */
-    getService(id: string): ServiceInfo | null {
-        this.loadServices();
+    private sampleMetrics(): void {
+        const live = Array.from(this.running.values()).filter(running => running.spawned && !running.exited && running.pid);
 
-        const config = this.services.get(id);
-        if (!config) return null;
+        if (live.length === 0) {
+            clearInterval(this.metricsTimer);
+            this.metricsTimer = undefined;
+            return;
+        }
+
+        const processes = listProcesses();
+        const sockets = readListeningSockets();
+        const now = Date.now();
+
+        for (const running of live) {
+            const tree = getProcessTree(running.pid!, processes);
+            running.listening = findListeningSockets(tree.map(proc => proc.pid), sockets);
+
+            let deltaTicks = 0;
+            let rssBytes = 0;
+            for (const proc of tree) {
+                deltaTicks += Math.max(0, proc.cpuTicks - (running.cpuTicksByPid.get(proc.pid) ?? 0));
+                rssBytes += proc.rssBytes;
+            }
+
+            const previousSampleAt = running.lastSampleAt;
+            running.cpuTicksByPid = new Map(tree.map(proc => [proc.pid, proc.cpuTicks]));
+            running.lastSampleAt = now;
+
+            // The first pass only establishes the CPU baseline
+            if (previousSampleAt === undefined) continue;
+
+            const elapsedSeconds = (now - previousSampleAt) / 1000;
+            const cpuPercent = deltaTicks / CLOCK_TICKS_PER_SECOND / elapsedSeconds * 100;
+
+            running.metrics.push({
+                timestamp: new Date(now).toISOString(),
+                cpuPercent: Math.round(cpuPercent * 10) / 10,
+                rssBytes,
+                processCount: tree.length,
+            });
+            if (running.metrics.length > MAX_METRICS_SAMPLES) {
+                running.metrics.shift();
+            }
+        }
+    }
 
+    /**
+     * Send keyboard input to a service running under a pty
+     */
+    writeInput(id: string, data: string): void {
         const running = this.running.get(id);
 
-        return {
-            config,
-            status: running?.status ?? 'stopped',
-            pid: running?.pid,
-            startedAt: running?.startedAt?.toISOString(),
-            error: running?.error,
-        };
+        if (!running || running.exited) {
+            throw new Error(`Service '${id}' is not running`);
+        }
+        if (!running.pty) {
+            throw new Error(`Service '${id}' does not accept input (set "pty": true in its config)`);
+        }
+
+        running.pty.write(data);
     }
 
     /**
-     * Start a service
+     * Resize the pseudo-terminal of a service to match the viewer's terminal.
+     * The size is remembered and used for the next run as well. Services
+     * without a pty have no terminal to resize and are ignored.
      */
-    async startService(id: string): Promise<ServiceInfo> {
-        this.loadServices();
+    resizeTerminal(id: string, cols: number, rows: number): void {
+        if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 1 || rows < 1) {
+            throw new Error(`Invalid terminal size ${cols}x${rows}`);
+        }
 
-        const config = this.services.get(id);
+        const config = this.services.get(id) ?? this.removedServices.get(id);
         if (!config) {
             throw new Error(`Service '${id}' not found`);
         }
+        if (!config.pty) return;
 
-        // Check if already running
-        const existing = this.running.get(id);
-        if (existing && (existing.status === 'running' || existing.status === 'starting')) {
-            throw new Error(`Service '${id}' is already ${existing.status}`);
+        this.terminalSizes.set(id, { cols, rows });
+
+        const running = this.running.get(id);
+        if (running?.pty && !running.exited) {
+            running.pty.resize(cols, rows);
         }
+    }
 
-        // Validate cwd exists
-        if (!fs.existsSync(config.cwd)) {
-            throw new Error(`Working directory '${config.cwd}' does not exist`);
-        }
-
-        // Build environment
-        const env: Record<string, string> = {
-            ...process.env as Record<string, string>,
-            // Force unbuffered output for Python
-            PYTHONUNBUFFERED: '1',
-            // Force color output
-            FORCE_COLOR: '1',
-            TERM: 'xterm-256color',
-            // Merge service-specific env
-            ...config.env,
-        };
+    /**
+     * Probe the service periodically and track its health (internal)
+     *
+     * The service moves from 'starting' to 'running' on the first passing probe.
+     * If that does not happen within the startup timeout it is killed and put
+     * into 'error'. Once running, `retries` consecutive failures mark it unhealthy.
+     */
+    private startHealthChecks(running: RunningService): void {
+        const { config } = running;
+        const { id } = config;
+        const check = config.healthCheck!;
+        const intervalMs = check.intervalMs ?? DEFAULT_HEALTH_INTERVAL_MS;
+        const retries = check.retries ?? DEFAULT_HEALTH_RETRIES;
+        const startupTimeoutMs = check.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS;
+        let failures = 0;
+
+        const probe = async () => {
+            const result = await runHealthProbe(check, { cwd: running.cwd, env: running.env });
+
+            // The service may have exited or been stopped while the probe ran
+            if (this.running.get(id) !== running || (running.status !== 'starting' && running.status !== 'running')) {
+                return;
+            }
 
-        console.log(`[ServiceManager] Starting service '${id}': ${config.command}`);
+            running.lastProbe = result;
 
-        // Parse command - use shell to handle complex commands
-        const child = spawn(config.command, [], {
-            cwd: config.cwd,
-            env,
-            shell: true,
-            // Pipe stdout and stderr
-            stdio: ['ignore', 'pipe', 'pipe'],
-        });
+            if (result.ok) {
+                failures = 0;
 
-        const runningService: RunningService = {
-            config,
-            process: child,
-            status: 'starting',
-            pid: child.pid,
-            startedAt: new Date(),
-            logBuffer: [],
-            subscribers: new Set(),
+                if (running.health !== 'healthy') {
+                    running.health = 'healthy';
+                    if (running.status === 'starting') {
+                        clearTimeout(running.startupTimer);
+                        running.startupTimer = undefined;
+                        running.status = 'running';
+                        console.log(`[ServiceManager] Service '${id}' is healthy and running (PID: ${running.pid})`);
+                    }
+                    this.emit('status', { id, status: running.status, pid: running.pid, health: running.health });
+                }
+            } else {
+                failures++;
+
+                if (running.status === 'running' && failures >= retries && running.health !== 'unhealthy') {
+                    running.health = 'unhealthy';
+                    console.warn(`[ServiceManager] Service '${id}' is unhealthy: ${result.message}`);
+                    this.emit('status', { id, status: running.status, health: running.health, message: result.message });
+                }
+            }
+
+            running.healthTimer = setTimeout(probe, intervalMs);
         };
 
-        this.running.set(id, runningService);
+        running.startupTimer = setTimeout(() => {
+            running.startupTimer = undefined;
+            if (running.status !== 'starting') return;
 
-        // Set encoding to preserve ANSI codes as strings
-        child.stdout?.setEncoding('utf8');
-        child.stderr?.setEncoding('utf8');
+            const lastMessage = running.lastProbe ? ` (last probe: ${running.lastProbe.message})` : '';
+            running.status = 'error';
+            running.health = 'unhealthy';
+            running.error = `Did not become healthy within ${startupTimeoutMs / 1000}s${lastMessage}`;
+            running.stopRequested = true;
+            this.stopHealthChecks(running);
 
-        // Handle stdout
-        child.stdout?.on('data', (data: string) => {
-            this.addLog(id, data, 'stdout');
-        });
+            console.error(`[ServiceManager] Service '${id}': ${running.error}`);
+            this.emit('status', { id, status: running.status, health: running.health, error: running.error });
 
-        // Handle stderr
-        child.stderr?.on('data', (data: string) => {
-            this.addLog(id, data, 'stderr');
-        });
+            if (running.pid) {
+                treeKill(running.pid, 'SIGKILL');
+            }
+        }, startupTimeoutMs);
 
-        // Handle process start
-        child.on('spawn', () => {
-            runningService.status = 'running';
-            console.log(`[ServiceManager] Service '${id}' is now running (PID: ${child.pid})`);
-            this.emit('status', { id, status: 'running', pid: child.pid });
-        });
+        void probe();
+    }
 
-        // Handle process error
-        child.on('error', (error) => {
-            runningService.status = 'error';
-            runningService.error = error.message;
-            console.error(`[ServiceManager] Service '${id}' error:`, error.message);
-            this.emit('status', { id, status: 'error', error: error.message });
-        });
+    /**
+     * Cancel pending health probes and the startup timeout (internal)
+     */
+    private stopHealthChecks(running: RunningService): void {
+        clearTimeout(running.healthTimer);
+        clearTimeout(running.startupTimer);
+        running.healthTimer = undefined;
+        running.startupTimer = undefined;
+    }
+
+    /**
+     * Apply the service's restart policy after an unexpected exit (internal)
+     *
+     * Quick crashes are retried with exponential backoff. Once maxRestarts
+     * consecutive quick crashes pile up, the service is parked in 'crash-loop'
+     * until someone starts it by hand.
+     */
+    private scheduleRestart(running: RunningService, code: number | null): void {
+        const { config } = running;
+        const { id } = config;
+        const policy = config.restartPolicy ?? 'no';
 
-        // Handle process exit
-        child.on('exit', (code, signal) => {
-            const wasRunning = runningService.status === 'running';
+        if (policy === 'no' || (policy === 'on-failure' && code === 0)) return;
 
-            if (runningService.status !== 'stopping') {
-                // Unexpected exit
-                runningService.status = code === 0 ? 'stopped' : 'error';
-                if (code !== 0) {
-                    runningService.error = `Exited with code ${code}`;
-                }
-            } else {
-                runningService.status = 'stopped';
+        const uptime = Date.now() - (running.startedAt?.getTime() ?? 0);
+        if (uptime >= STABLE_UPTIME_MS) {
+            running.consecutiveCrashes = 0;
+        }
+
+        const maxRestarts = config.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+        if (running.consecutiveCrashes >= maxRestarts) {
+            running.status = 'crash-loop';
+            running.error = `Crashed ${running.consecutiveCrashes + 1} times in a row, giving up`;
+            console.error(`[ServiceManager] Service '${id}' is crash-looping, not restarting`);
+            this.emit('status', { id, status: running.status, error: running.error });
+            return;
+        }
+
+        const baseDelay = config.restartDelayMs ?? DEFAULT_RESTART_DELAY_MS;
+        const maxDelay = config.maxRestartDelayMs ?? DEFAULT_MAX_RESTART_DELAY_MS;
+        const delay = Math.min(baseDelay * 2 ** running.consecutiveCrashes, maxDelay);
+        const attempt = running.consecutiveCrashes + 1;
+
+        console.log(`[ServiceManager] Restarting '${id}' in ${delay}ms (attempt ${attempt}/${maxRestarts})`);
+        this.emit('status', { id, status: running.status, restartIn: delay, attempt, maxRestarts });
+
+        running.restartTimer = setTimeout(() => {
+            running.restartTimer = undefined;
+
+            // Bail out if the entry was replaced (e.g. by a manual start) meanwhile
+            if (this.running.get(id) !== running) return;
+
+            // Pick up edits made to services.json since the crashed run started
+            const current = this.services.get(id);
+            if (!current) {
+                running.status = 'stopped';
+                this.emit('status', { id, status: running.status });
+                return;
             }
 
-            console.log(`[ServiceManager] Service '${id}' exited (code: ${code}, signal: ${signal})`);
-            this.emit('status', { id, status: runningService.status, code, signal });
+            this.spawnService(current, {
+                restartCount: running.restartCount + 1,
+                consecutiveCrashes: attempt,
+            }, 'auto-restart').catch(err => {
+                running.status = 'error';
+                running.error = err instanceof Error ? err.message : String(err);
+                console.error(`[ServiceManager] Automatic restart of '${id}' failed:`, running.error);
+                this.emit('status', { id, status: running.status, error: running.error });
+            });
+        }, delay);
+    }
 
-            // Keep the running service info for a bit to show exit status
-            // but mark it as stopped
-        });
+    /**
+     * Cancel a pending automatic restart, if any (internal)
+     */
+    private cancelRestart(running: RunningService): boolean {
+        if (!running.restartTimer) return false;
 
-        return this.getService(id)!;
+        clearTimeout(running.restartTimer);
+        running.restartTimer = undefined;
+        return true;
     }
 
     /**
@@ -233,125 +1696,334 @@ class ServiceManager extends EventEmitter {
             throw new Error(`Service '${id}' is not running`);
         }
 
-        if (running.status === 'stopped' || running.status === 'stopping') {
+        // Stopping a service that is waiting to be restarted just cancels the restart
+        if (this.cancelRestart(running)) {
+            running.status = 'stopped';
+            running.error = undefined;
+            this.emit('status', { id, status: running.status });
+            return this.getService(id)!;
+        }
+
+        if (running.status === 'stopped' || running.status === 'crash-loop' || running.status === 'stopping') {
             throw new Error(`Service '${id}' is already ${running.status}`);
         }
 
+        // Nothing left to kill, e.g. after a failed start
+        if (running.exited) {
+            running.status = 'stopped';
+            this.emit('status', { id, status: running.status });
+            return this.getService(id)!;
+        }
+
         if (!running.pid) {
             throw new Error(`Service '${id}' has no PID`);
         }
 
+        const { config } = running;
+        const pid = running.pid;
+        const stopSignal = config.stopSignal ?? DEFAULT_STOP_SIGNAL;
+        const stopTimeoutMs = config.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS;
+
         running.status = 'stopping';
-        console.log(`[ServiceManager] Stopping service '${id}' (PID: ${running.pid})`);
+        running.stopRequested = true;
+        console.log(`[ServiceManager] Stopping service '${id}' (PID: ${pid})`);
+        this.emit('status', { id, status: running.status, pid });
+
+        // 1. Ask nicely through the service's own stop command
+        if (config.stopCommand) {
+            await this.runStopCommand(running, stopTimeoutMs);
+            await this.waitForExit(running, stopTimeoutMs);
+        }
 
-        return new Promise((resolve, reject) => {
-            const pid = running.pid!;
+        // 2. Send the stop signal to the whole tree
+        if (!running.exited) {
+            console.log(`[ServiceManager] Sending ${stopSignal} to '${id}'`);
+            await this.killTree(pid, stopSignal);
+        }
 
-            // First try SIGTERM
-            treeKill(pid, 'SIGTERM', (err) => {
-                if (err) {
-                    console.warn(`[ServiceManager] SIGTERM failed for '${id}', trying SIGKILL`);
-                    // Force kill if SIGTERM fails
-                    treeKill(pid, 'SIGKILL', (killErr) => {
-                        if (killErr) {
-                            running.status = 'error';
-                            running.error = `Failed to kill process: ${killErr.message}`;
-                            reject(new Error(running.error));
-                        } else {
-                            running.status = 'stopped';
-                            resolve(this.getService(id)!);
-                        }
-                    });
-                } else {
-                    running.status = 'stopped';
-                    resolve(this.getService(id)!);
+        // 3. Force kill if it is still around after the grace period
+        if (!await this.waitForExit(running, stopTimeoutMs)) {
+            console.warn(`[ServiceManager] Timeout stopping '${id}', forcing SIGKILL`);
+            await this.killTree(pid, 'SIGKILL');
+
+            if (!await this.waitForExit(running, KILL_TIMEOUT_MS)) {
+                running.status = 'error';
+                running.error = `Process ${pid} did not exit after SIGKILL`;
+                this.emit('status', { id, status: running.status, error: running.error });
+                throw new Error(running.error);
+            }
+        }
+
+        return this.getService(id)!;
+    }
+
+    /**
+     * Run the service's stopCommand, echoing its output into the service log (internal)
+     */
+    private runStopCommand(running: RunningService, timeoutMs: number): Promise<void> {
+        const { id, stopCommand } = running.config;
+        const { cwd } = running;
+
+        console.log(`[ServiceManager] Running stop command for '${id}': ${stopCommand}`);
+        this.addLog(id, `\x1b[90m$ ${stopCommand}\x1b[0m\n`, 'system');
+
+        return new Promise(resolve => {
+            exec(stopCommand!, { cwd, env: running.env, timeout: timeoutMs }, (error, stdout, stderr) => {
+                for (const [output, stream] of [[stdout, 'stdout'], [stderr, 'stderr']] as const) {
+                    const lines = new LineAssembler(0, (line, partial) => this.addLog(id, line, stream, partial));
+                    lines.push(output);
                 }
+
+                if (error) {
+                    console.warn(`[ServiceManager] Stop command for '${id}' failed: ${error.message}`);
+                }
+                resolve();
             });
+        });
+    }
 
-            // Force kill after timeout
-            setTimeout(() => {
-                if (running.status === 'stopping') {
-                    console.warn(`[ServiceManager] Timeout stopping '${id}', forcing SIGKILL`);
-                    treeKill(pid, 'SIGKILL', () => {
-                        running.status = 'stopped';
-                    });
+    /**
+     * Send a signal to a process and all its descendants (internal)
+     */
+    private killTree(pid: number, signal: string): Promise<void> {
+        return new Promise(resolve => {
+            treeKill(pid, signal, (err) => {
+                if (err) {
+                    // Usually means the process is already gone
+                    console.warn(`[ServiceManager] Failed to send ${signal} to PID ${pid}: ${err.message}`);
                 }
-            }, 5000);
+                resolve();
+            });
         });
     }
 
+    /**
+     * Resolve true once the process has exited, or false after timeoutMs (internal)
+     */
+    private waitForExit(running: RunningService, timeoutMs: number): Promise<boolean> {
+        if (running.exited) return Promise.resolve(true);
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => resolve(false), timeoutMs);
+            running.exitPromise.then(() => {
+                clearTimeout(timer);
+                resolve(true);
+            });
+        });
+    }
+
+    /**
+     * Stop several services, dependents before their dependencies
+     */
+    async stopServices(ids: string[]): Promise<void> {
+        let order: string[];
+        try {
+            order = resolveStartOrder(this.services, ids).filter(id => ids.includes(id));
+        } catch {
+            // Fall back to the given order if the graph is broken or ids were removed
+            order = [...ids];
+        }
+
+        for (const id of order.reverse()) {
+            const status = this.running.get(id)?.status;
+            if (status !== 'running' && status !== 'starting') continue;
+
+            try {
+                await this.stopService(id);
+            } catch (error) {
+                console.error(`[ServiceManager] Failed to stop '${id}':`, error);
+            }
+        }
+    }
+
     /**
      * Restart a service
      */
-    async restartService(id: string): Promise<ServiceInfo> {
+    async restartService(id: string, trigger: RunTrigger = 'user'): Promise<ServiceInfo> {
         const running = this.running.get(id);
 
-        if (running && running.status !== 'stopped' && running.status !== 'error') {
+        if (running && running.status !== 'stopped' && running.status !== 'error' && running.status !== 'crash-loop') {
             await this.stopService(id);
             // Wait a bit for cleanup
             await new Promise(resolve => setTimeout(resolve, 500));
         }
 
-        return this.startService(id);
+        return this.startService(id, trigger);
     }
 
     /**
-     * Get logs for a service
+     * Run an action on several services, `concurrency` at a time (default all
+     * at once), and report the outcome for each. Services already up or down count as started or
+     * stopped. Dependents are stopped before their dependencies, and starts
+     * are issued in dependency order, so shared dependencies come up once. A
+     * restart stops them all before starting any.
      */
-    getLogs(id: string): LogEntry[] {
-        const running = this.running.get(id);
-        return running?.logBuffer ?? [];
+    async runServiceAction(
+        action: ServiceAction,
+        ids: string[],
+        concurrency = Infinity
+    ): Promise<ServiceActionResult[]> {
+        this.loadServices();
+
+        const results = new Map<string, ServiceActionResult>();
+        const settle = async (id: string, run: () => Promise<unknown>) => {
+            try {
+                await run();
+                results.set(id, { id, success: true, service: this.getService(id) ?? undefined });
+            } catch (error) {
+                results.set(id, {
+                    id,
+                    success: false,
+                    service: this.getService(id) ?? undefined,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        };
+
+        const known = ids.filter(id => this.getService(id));
+        for (const id of ids) {
+            if (!known.includes(id)) results.set(id, { id, success: false, error: `Service '${id}' not found` });
+        }
+
+        if (action !== 'start') {
+            let waves: string[][];
+            try {
+                waves = resolveStopWaves(this.services, known);
+            } catch {
+                // Fall back to stopping them together if the graph is broken
+                waves = [known];
+            }
+
+            for (const wave of waves) {
+                await forEachLimited(wave, concurrency, id => settle(id, async () => {
+                    const status = this.running.get(id)?.status;
+                    if (status === 'running' || status === 'starting') await this.stopService(id);
+                }));
+            }
+        }
+
+        if (action !== 'stop') {
+            const startable = known.filter(id => this.services.has(id) && results.get(id)?.success !== false);
+            let order: string[];
+            try {
+                order = resolveStartOrder(this.services, startable).filter(id => startable.includes(id));
+            } catch {
+                order = startable;
+            }
+
+            await forEachLimited(order, concurrency, id => settle(id, async () => {
+                if (!this.isActive(id)) await this.startService(id);
+            }));
+        }
+
+        return ids.map(id => results.get(id) ?? { id, success: false, error: `Service '${id}' was removed` });
     }
 
     /**
-     * Subscribe to log updates
+     * Ids of the services in a group
      */
-    subscribeToLogs(id: string, callback: (entry: LogEntry) => void): () => void {
+    getGroupMembers(group: string): string[] {
+        this.loadServices();
+
+        return [...this.services.values()]
+            .filter(config => config.group === group)
+            .map(config => config.id);
+    }
+
+    /**
+     * Get logs for a service. Before its first run in this hub session, a
+     * service with persisted logs returns the output of its last run.
+     */
+    getLogs(id: string): LogEntry[] {
         const running = this.running.get(id);
+        if (running) return running.logBuffer.toArray();
 
-        if (running) {
-            running.subscribers.add(callback);
-            return () => running.subscribers.delete(callback);
-        }
+        const config = this.services.get(id);
+        if (!config || !resolvePersistLogs(config.persistLogs)) return [];
 
-        // Create a pending subscription for when the service starts
-        const handler = (event: { id: string }) => {
-            if (event.id === id) {
-                const r = this.running.get(id);
-                if (r) {
-                    r.subscribers.add(callback);
-                }
-            }
+        const lastRun = listRunLogs(id)[0];
+        return lastRun ? readRunLogs(id, lastRun.runId, MAX_LOG_ENTRIES).entries : [];
+    }
+
+    /**
+     * Get the persisted logs of one run of a service
+     */
+    getRunLogs(id: string, runId: string, filter: LogFilter = {}): { entries: LogEntry[]; truncated: boolean } {
+        const tail = filter.tail ?? MAX_LOG_ENTRIES;
+        const entries = applyLogFilter(readRunLogs(id, runId, Infinity).entries, { ...filter, tail: undefined });
+
+        return {
+            entries: entries.slice(entries.length - tail),
+            truncated: entries.length > tail,
         };
+    }
+
+    /**
+     * Get the ids of the runs of a service that have logs on disk
+     */
+    getRunsWithLogs(id: string): Set<string> {
+        return new Set(listRunLogs(id).map(run => run.runId));
+    }
+
+    /**
+     * Subscribe to log updates, including those of runs started later
+     */
+    subscribeToLogs(id: string, callback: (entry: LogEntry) => void): () => void {
+        const subscribers = this.getLogSubscribers(id);
+        subscribers.add(callback);
 
-        this.on('status', handler);
         return () => {
-            this.off('status', handler);
-            const r = this.running.get(id);
-            if (r) {
-                r.subscribers.delete(callback);
-            }
+            subscribers.delete(callback);
         };
     }
 
+    /**
+     * The log subscribers of a service, created on first use (internal)
+     */
+    private getLogSubscribers(id: string): Set<(entry: LogEntry) => void> {
+        let subscribers = this.logSubscribers.get(id);
+        if (!subscribers) {
+            subscribers = new Set();
+            this.logSubscribers.set(id, subscribers);
+        }
+        return subscribers;
+    }
+
+    /**
+     * Start writing a run's output to disk if the service persists its logs (internal)
+     */
+    private openLogWriter(running: RunningService): void {
+        const limits = resolvePersistLogs(running.config.persistLogs);
+        if (!limits) return;
+
+        const { id } = running.config;
+        try {
+            pruneRunLogs(id, limits, running.run.runId);
+            running.logWriter = new RunLogWriter(id, running.run.runId, limits.maxFileBytes);
+        } catch (error) {
+            console.error(`[ServiceManager] Failed to open log file for '${id}':`, error);
+        }
+    }
+
     /**
      * Add a log entry and notify subscribers (internal)
      */
-    private addLog(id: string, data: string, stream: 'stdout' | 'stderr'): void {
+    private addLog(id: string, data: string, stream: LogEntry['stream'], partial = false): void {
         const running = this.running.get(id);
         if (!running) return;
 
         const entry: LogEntry = {
+            seq: this.nextLogSeq++,
             timestamp: new Date().toISOString(),
             data,
             stream,
+            ...(partial && { partial }),
+            ...(stream !== 'system' && running.logParser?.(data)),
         };
 
         // Add to buffer with ring buffer behavior
         running.logBuffer.push(entry);
-        if (running.logBuffer.length > MAX_LOG_ENTRIES) {
-            running.logBuffer.shift();
-        }
+        running.logWriter?.write(entry);
 
         // Notify subscribers
         for (const callback of running.subscribers) {
@@ -364,27 +2036,185 @@ class ServiceManager extends EventEmitter {
 
         // Emit for SSE handlers
         this.emit('log', { id, entry });
+
+        if (stream !== 'system') {
+            this.checkAlerts(running, entry);
+        }
+    }
+
+    /**
+     * Raise an alert for each rule the entry matches, outside its cooldown (internal)
+     */
+    private checkAlerts(running: RunningService, entry: LogEntry): void {
+        if (running.alertRules.length === 0) return;
+
+        const { id } = running.config;
+        const line = stripAnsi(entry.data).replace(/\r?\n$/, '');
+        const now = Date.now();
+
+        running.alertRules.forEach(({ rule, pattern }, index) => {
+            if (!pattern.test(line)) return;
+
+            const cooldownKey = `${id}:${index}`;
+            const lastFiredAt = this.alertCooldowns.get(cooldownKey);
+            if (lastFiredAt !== undefined && now - lastFiredAt < (rule.cooldownMs ?? 0)) return;
+            this.alertCooldowns.set(cooldownKey, now);
+
+            const alert: ServiceAlert = {
+                id: randomUUID(),
+                serviceId: id,
+                rule: rule.name ?? rule.pattern,
+                severity: rule.severity ?? 'warning',
+                line,
+                timestamp: entry.timestamp,
+                seq: entry.seq,
+            };
+
+            this.alerts.push(alert);
+            if (this.alerts.length > MAX_ALERTS) {
+                this.alerts.shift();
+            }
+            this.alertSummaries.set(id, {
+                count: (this.alertSummaries.get(id)?.count ?? 0) + 1,
+                last: alert,
+            });
+
+            console.warn(`[ServiceManager] Alert '${alert.rule}' (${alert.severity}) for '${id}': ${line}`);
+            this.emit('alert', alert);
+        });
+    }
+
+    /**
+     * Turn unexpected exits, errors and crash loops into notifications (internal)
+     */
+    private notifyStatus(event: {
+        id: string;
+        status: ServiceStatus;
+        code?: number | null;
+        signal?: NodeJS.Signals | null;
+        error?: string;
+        unexpected?: boolean;
+        restartIn?: number;
+    }): void {
+        const name = this.services.get(event.id)?.name ?? event.id;
+        let type: NotificationEventType;
+        let message: string;
+
+        if (event.restartIn !== undefined) {
+            // Follow-up of an exit that was already reported
+            return;
+        } else if (event.status === 'crash-loop') {
+            type = 'crash-loop';
+            message = `${name} is crash-looping: ${event.error}`;
+        } else if (event.unexpected) {
+            type = 'exit';
+            message = event.signal ? `${name} was killed by ${event.signal}` : `${name} exited with code ${event.code}`;
+        } else if (event.status === 'error' && event.error) {
+            type = 'error';
+            message = `${name}: ${event.error}`;
+        } else {
+            return;
+        }
+
+        this.notify({
+            id: randomUUID(),
+            type,
+            serviceId: event.id,
+            serviceName: name,
+            status: event.status,
+            message,
+            timestamp: new Date().toISOString(),
+            exitCode: event.code,
+            signal: event.signal,
+        });
+    }
+
+    /**
+     * Notify about an alert raised by a log rule (internal)
+     */
+    private notifyAlert(alert: ServiceAlert): void {
+        const name = this.services.get(alert.serviceId)?.name ?? alert.serviceId;
+
+        this.notify({
+            id: randomUUID(),
+            type: 'alert',
+            serviceId: alert.serviceId,
+            serviceName: name,
+            status: this.running.get(alert.serviceId)?.status ?? 'stopped',
+            message: `${name} [${alert.rule}]: ${alert.line}`,
+            timestamp: alert.timestamp,
+            alert,
+        });
+    }
+
+    /**
+     * Send a notification to every sink routed to it. Browser sinks are served
+     * through the 'notification' event, which GET /api/events streams (internal)
+     */
+    private notify(notification: ServiceNotification): void {
+        const sinks = (this.settings.notifications ?? []).filter(sink => sinkMatches(sink, notification));
+
+        if (sinks.some(sink => sink.type === 'browser')) {
+            this.emit('notification', notification);
+        }
+
+        for (const sink of sinks) {
+            if (sink.type === 'browser') continue;
+
+            deliverNotification(sink, notification).catch(error => {
+                console.error(`[ServiceManager] Failed to deliver ${notification.type} notification for '${notification.serviceId}' to ${sink.name ?? sink.type}:`, error);
+            });
+        }
+    }
+
+    /**
+     * Get recent alerts, newest first, optionally for one service
+     */
+    getAlerts(serviceId?: string, limit = MAX_ALERTS): ServiceAlert[] {
+        return this.alerts
+            .filter(alert => !serviceId || alert.serviceId === serviceId)
+            .reverse()
+            .slice(0, limit);
+    }
+
+    /**
+     * Forget alerts and reset the counters, for one service or all of them
+     */
+    clearAlerts(serviceId?: string): void {
+        this.alerts = serviceId ? this.alerts.filter(alert => alert.serviceId !== serviceId) : [];
+        if (serviceId) {
+            this.alertSummaries.delete(serviceId);
+        } else {
+            this.alertSummaries.clear();
+        }
     }
 
     /**
      * Cleanup on shutdown
      */
-    async shutdown(): Promise<void> {
-        console.log('[ServiceManager] Shutting down...');
+    async shutdown(options: { leaveRunning?: boolean } = {}): Promise<void> {
+        const leaveRunning = options.leaveRunning ?? this.settings.shutdownPolicy === 'leave-running';
+        console.log(`[ServiceManager] Shutting down${leaveRunning ? ' (leaving services running)' : ''}...`);
 
-        const stopPromises: Promise<unknown>[] = [];
+        this.configWatcher?.close();
+        this.configWatcher = undefined;
+        clearTimeout(this.configReloadTimer);
 
-        for (const [id, running] of this.running) {
-            if (running.status === 'running' || running.status === 'starting') {
-                stopPromises.push(
-                    this.stopService(id).catch(err => {
-                        console.error(`[ServiceManager] Failed to stop '${id}':`, err);
-                    })
-                );
+        for (const running of this.running.values()) {
+            this.cancelRestart(running);
+        }
+
+        // Process records stay on disk so the next hub session can adopt them
+        if (leaveRunning) {
+            for (const running of this.running.values()) {
+                this.stopHealthChecks(running);
+                clearInterval(running.livenessTimer);
             }
+            console.log('[ServiceManager] Shutdown complete');
+            return;
         }
 
-        await Promise.all(stopPromises);
+        await this.stopServices(Array.from(this.running.keys()));
         console.log('[ServiceManager] Shutdown complete');
     }
 }
@@ -402,6 +2232,12 @@ export function getServiceManager(): ServiceManager {
     if (!global.__serviceManager) {
         global.__serviceManager = new ServiceManager();
 
+        // Pick up services left running by a previous hub process before auto-starting
+        global.__serviceManager.recoverProcesses();
+        global.__serviceManager.startAutoStartServices().catch(error => {
+            console.error('[ServiceManager] Auto-start failed:', error);
+        });
+
         // Setup cleanup handlers
         if (typeof process !== 'undefined') {
             const cleanup = () => {
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directory for state the hub keeps between restarts (process records, history, logs)
+ */
+export const DATA_DIR = path.join(process.cwd(), '.services-hub');
+
+/**
+ * Resolve a path inside the data directory, creating its parent directory
+ */
+export function dataPath(...segments: string[]): string {
+    const target = path.join(DATA_DIR, ...segments);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    return target;
+}
+
+/**
+ * Write a file by writing a temporary sibling and renaming it over the target,
+ * so readers never see a half-written file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+    const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+        fs.writeFileSync(tmpPath, content, 'utf-8');
+        fs.renameSync(tmpPath, filePath);
+    } catch (error) {
+        fs.rmSync(tmpPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Read and parse a JSON file, returning the fallback if it is missing or corrupt
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+    } catch {
+        return fallback;
+    }
+}
@@ -4,17 +4,159 @@
 export interface ServiceConfig {
   id: string;
   name: string;
+  /** May use `${VAR}` and `${VAR:-default}` */
   command: string;
+  /** May start with `~` and use `${VAR}` */
   cwd: string;
+  /** Values may use `${VAR}`, and override the env files */
   env?: Record<string, string>;
+  /** Dotenv files relative to cwd, applied in order, e.g. [".env", ".env.local"] */
+  envFile?: string | string[];
   autoStart?: boolean;
   description?: string;
+  /** Section the dashboard lists the service under, also acted on as a whole */
+  group?: string;
+  /** Free-form labels, e.g. ["python", "worker"] */
+  tags?: string[];
+  /** Restart automatically when the process exits on its own (default 'no') */
+  restartPolicy?: RestartPolicy;
+  /** Consecutive quick crashes tolerated before entering crash-loop (default 5) */
+  maxRestarts?: number;
+  /** Initial restart delay in ms, doubled after every quick crash (default 1000) */
+  restartDelayMs?: number;
+  /** Upper bound for the restart delay in ms (default 30000) */
+  maxRestartDelayMs?: number;
+  /** Services that must be up before this one starts */
+  dependsOn?: Array<string | ServiceDependency>;
+  /** Probe used to decide when the service is actually up */
+  healthCheck?: HealthCheckConfig;
+  /** Signal sent to the process tree to stop it (default SIGTERM) */
+  stopSignal?: NodeJS.Signals;
+  /** Grace period in ms for each stop phase before escalating to SIGKILL (default 5000) */
+  stopTimeoutMs?: number;
+  /** Command run before signalling, e.g. `pg_ctl stop` */
+  stopCommand?: string;
+  /** Run under a pseudo-terminal and accept keyboard input from the dashboard */
+  pty?: boolean;
+  /** Write output to .services-hub/logs, one file per run; `true` uses the default limits */
+  persistLogs?: boolean | PersistLogsConfig;
+  /** Memory for recent output kept by the hub, overrides the hub-wide setting */
+  logBufferBytes?: number;
+  /** Parse each output line into level, message and fields */
+  logParser?: LogParserConfig;
+  /** Raise an alert when an output line matches */
+  alerts?: AlertRule[];
+  /** Restart the service when its definition changes in services.json while it runs */
+  restartOnConfigChange?: boolean;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Output pattern that raises an alert, e.g. `Traceback|FATAL|EADDRINUSE`
+ */
+export interface AlertRule {
+  /** Regular expression tested against each line with ANSI codes removed */
+  pattern: string;
+  /** Shown instead of the pattern (default: the pattern) */
+  name?: string;
+  severity?: AlertSeverity;
+  /** Minimum time between two alerts of this rule (default 0: every match) */
+  cooldownMs?: number;
+}
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+/**
+ * `json` and `logfmt` read the level from `level`/`lvl`/`severity` and the message
+ * from `msg`/`message`. A regex uses the named groups `level` and `message`, other
+ * named groups become fields.
+ */
+export type LogParserConfig = 'json' | 'logfmt' | { regex: string };
+
+/**
+ * Rotation and retention limits for on-disk logs
+ */
+export interface PersistLogsConfig {
+  /** Size in bytes at which a run's file is rotated (default 10 MB) */
+  maxFileBytes?: number;
+  /** Delete run files older than this many days (default 7) */
+  maxAgeDays?: number;
+  /** Keep files for at most this many runs (default 20) */
+  maxRuns?: number;
+}
+
+/**
+ * What to wait for before a dependent service is started
+ */
+export type DependencyCondition = 'spawned' | 'healthy' | 'port' | 'log';
+
+/**
+ * A dependency on another service, with an optional readiness condition
+ */
+export interface ServiceDependency {
+  id: string;
+  /** Readiness condition (default 'spawned') */
+  condition?: DependencyCondition;
+  /** TCP port that must accept connections when condition is 'port' */
+  port?: number;
+  /** Host to connect to when condition is 'port' (default 127.0.0.1) */
+  host?: string;
+  /** Regex the dependency's output must match when condition is 'log' */
+  pattern?: string;
+  /** How long to wait before giving up, in ms (default 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * When a service should be restarted after exiting unexpectedly
+ */
+export type RestartPolicy = 'no' | 'on-failure' | 'always';
+
+/**
+ * Health check probe configuration
+ */
+export interface HealthCheckConfig {
+  type: 'http' | 'tcp' | 'command';
+  /** URL to GET for 'http' probes */
+  url?: string;
+  /** Expected HTTP status for 'http' probes (default: any 2xx) */
+  expectedStatus?: number;
+  /** Host to connect to for 'tcp' probes (default 127.0.0.1) */
+  host?: string;
+  /** Port to connect to for 'tcp' probes */
+  port?: number;
+  /** Shell command for 'command' probes, healthy when it exits with 0 */
+  command?: string;
+  /** Time between probes in ms (default 5000) */
+  intervalMs?: number;
+  /** Time a single probe may take in ms (default 2000) */
+  timeoutMs?: number;
+  /** Consecutive failures before a running service is unhealthy (default 3) */
+  retries?: number;
+  /** Time allowed to become healthy after spawning in ms (default 60000) */
+  startupTimeoutMs?: number;
+}
+
+/**
+ * Health of a service that has a health check configured
+ */
+export type HealthStatus = 'starting' | 'healthy' | 'unhealthy';
+
+/**
+ * Outcome of a single health probe
+ */
+export interface HealthProbeResult {
+  ok: boolean;
+  timestamp: string;
+  durationMs: number;
+  message: string;
 }
 
 /**
  * Service status states
  */
-export type ServiceStatus = 'stopped' | 'starting' | 'running' | 'stopping' | 'error';
+export type ServiceStatus = 'stopped' | 'starting' | 'running' | 'stopping' | 'error' | 'crash-loop';
 
 /**
  * Runtime information for a service including its config and current status
@@ -25,15 +167,214 @@ export interface ServiceInfo {
   pid?: number;
   startedAt?: string;
   error?: string;
+  /** Automatic restarts since the service was last started manually */
+  restartCount: number;
+  health?: HealthStatus;
+  lastProbe?: HealthProbeResult;
+  /** Exit code of the last run, null if it was killed by a signal */
+  exitCode?: number | null;
+  /** Signal that terminated the last run, if any */
+  exitSignal?: string | null;
+  /** Most recent resource usage sample of the process tree */
+  metrics?: MetricsSample;
+  /** TCP ports the process tree is listening on */
+  ports?: number[];
+  /** Browser URLs for the listening ports */
+  urls?: string[];
+  /** Picked up from a previous hub session, so earlier output is missing */
+  adopted?: boolean;
+  /** Usage of the in-memory log buffer, once the service has run */
+  logBuffer?: LogBufferStats;
+  /** Alerts raised since the hub started or they were last cleared */
+  alertCount: number;
+  lastAlert?: ServiceAlert;
+  /** Running on a definition that has since changed in services.json */
+  configOutdated?: boolean;
+  /** Removed from services.json but still running until it is stopped */
+  removed?: boolean;
 }
 
 /**
- * Log entry with timestamp
+ * What changed in the config file when it was reloaded
+ */
+export interface ConfigChangeEvent {
+  id: string;
+  timestamp: string;
+  /** `file` for edits on disk, `api` for changes made through the dashboard */
+  source: 'file' | 'api';
+  added: string[];
+  removed: string[];
+  changed: string[];
+  /** Changed services restarted because of restartOnConfigChange */
+  restarted: string[];
+  /** Removed services stopped because of removedServicePolicy */
+  stopped: string[];
+}
+
+/**
+ * A log line that matched one of a service's alert rules
+ */
+export interface ServiceAlert {
+  id: string;
+  serviceId: string;
+  /** Name of the rule, or its pattern */
+  rule: string;
+  severity: AlertSeverity;
+  /** The matching line without ANSI codes */
+  line: string;
+  timestamp: string;
+  /** Sequence id of the log entry */
+  seq: number;
+}
+
+/**
+ * Size of a service's in-memory log buffer and what it has dropped so far
+ */
+export interface LogBufferStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  /** Oldest entries dropped to stay within maxBytes */
+  evictedEntries: number;
+  evictedBytes: number;
+}
+
+/**
+ * CPU and memory usage of a service's whole process tree at one point in time
+ */
+export interface MetricsSample {
+  timestamp: string;
+  /** CPU usage since the previous sample, 100 = one full core */
+  cpuPercent: number;
+  rssBytes: number;
+  processCount: number;
+}
+
+/**
+ * What caused a service run to start
+ */
+export type RunTrigger = 'user' | 'auto-start' | 'dependency' | 'auto-restart' | 'file-watch' | 'schedule' | 'profile';
+
+/**
+ * One run of a service, from spawn to exit
+ */
+export interface RunRecord {
+  runId: string;
+  serviceId: string;
+  trigger: RunTrigger;
+  command: string;
+  pid?: number;
+  startedAt: string;
+  /** Unset while the run is still in progress */
+  endedAt?: string;
+  durationMs?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  error?: string;
+  /** Set by the API when the run's output is stored on disk */
+  hasLogs?: boolean;
+}
+
+/**
+ * One line of output, including its newline. `system` entries are written by
+ * the hub itself, e.g. the separator at the start of each run.
  */
 export interface LogEntry {
+  /** Increases with every entry, used to resume a log stream */
+  seq: number;
   timestamp: string;
   data: string;
-  stream: 'stdout' | 'stderr';
+  stream: 'stdout' | 'stderr' | 'system';
+  /** The line had no newline yet when it was flushed, the next entry continues it */
+  partial?: boolean;
+  /** Set when the service has a logParser and the line matched it */
+  level?: LogLevel;
+  message?: string;
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * Hub-wide settings
+ */
+export interface HubSettings {
+  /** What to do on boot with services a previous hub process left running (default 'adopt') */
+  orphanPolicy?: 'adopt' | 'reap';
+  /** What to do with a running service removed from this file: keep it running
+   *  until stopped from the dashboard, or stop it right away (default 'keep-running') */
+  removedServicePolicy?: 'keep-running' | 'stop';
+  /** Whether shutting down the hub stops its services (default 'stop') */
+  shutdownPolicy?: 'stop' | 'leave-running';
+  /** Default memory in bytes for each service's recent output (default 5 MB) */
+  logBufferBytes?: number;
+  /** Where to send notifications about crashes, errors and alerts */
+  notifications?: NotificationSink[];
+}
+
+/**
+ * - `exit`: the process exited without being asked to
+ * - `error`: the service failed to start, become healthy or stop
+ * - `crash-loop`: automatic restarts were given up
+ * - `alert`: an output line matched an alert rule
+ */
+export type NotificationEventType = 'exit' | 'error' | 'crash-loop' | 'alert';
+
+/**
+ * A destination for notifications. Without `events` or `services` a sink
+ * receives every event of every service.
+ */
+export interface NotificationSink {
+  /** `webhook` POSTs the notification as JSON, `command` runs a shell command
+   *  with it on stdin, `browser` shows a desktop notification in open dashboards */
+  type: 'webhook' | 'command' | 'browser';
+  /** Shown in hub logs (default: the type) */
+  name?: string;
+  events?: NotificationEventType[];
+  /** Service ids to notify about */
+  services?: string[];
+  /** webhook: URL to POST to */
+  url?: string;
+  /** webhook: extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** webhook: attempts after the first one fails (default 3) */
+  retries?: number;
+  /** command: shell command, also given SERVICES_HUB_EVENT, SERVICES_HUB_SERVICE and SERVICES_HUB_MESSAGE */
+  command?: string;
+}
+
+/**
+ * Payload delivered to notification sinks
+ */
+export interface ServiceNotification {
+  id: string;
+  type: NotificationEventType;
+  serviceId: string;
+  serviceName: string;
+  status: ServiceStatus;
+  /** Human readable summary, e.g. "api exited with code 1" */
+  message: string;
+  timestamp: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  alert?: ServiceAlert;
+}
+
+/**
+ * A named selection of services, e.g. `frontend-only` or `debug`. Switching
+ * to a profile starts its services and their dependencies and stops the rest.
+ */
+export interface ServiceProfile {
+  description?: string;
+  /** Ids of the services to run */
+  services: string[];
+  /** Per service id: changes applied while the profile is active */
+  overrides?: Record<string, ProfileOverride>;
+}
+
+export interface ProfileOverride {
+  /** Replaces the service's command, e.g. to add `--inspect` */
+  command?: string;
+  /** Merged over the service's env, e.g. `{ "DEBUG": "1" }` */
+  env?: Record<string, string>;
 }
 
 /**
@@ -41,6 +382,20 @@ export interface LogEntry {
  */
 export interface ServicesConfigFile {
   services: ServiceConfig[];
+  settings?: HubSettings;
+  /** Keyed by profile name */
+  profiles?: Record<string, ServiceProfile>;
+}
+
+/**
+ * Problem found in the config file. A service with an error is skipped when
+ * loading, a warning is reported but the service is loaded anyway.
+ */
+export interface ConfigIssue {
+  /** Location in the file, e.g. `services[2].env.PORT`, or `$` for the whole file */
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
 }
 
 /**
@@ -56,7 +411,108 @@ export interface ServiceListResponse {
   services: ServiceInfo[];
 }
 
+/**
+ * A variable in a service's effective environment
+ */
+export interface EnvVariable {
+  name: string;
+  value: string;
+  /** `process` (the hub's environment), `hub` (set for every service), an env file, or `config` */
+  source: string;
+}
+
+export interface ProfileInfo extends ServiceProfile {
+  name: string;
+}
+
+export interface ProfileListResponse {
+  profiles: ProfileInfo[];
+  /** Name of the selected profile, or null when services are managed one by one */
+  active: string | null;
+}
+
+/**
+ * What switching profiles did
+ */
+export interface ProfileSwitchResponse {
+  active: string | null;
+  started: string[];
+  stopped: string[];
+  restarted: string[];
+}
+
+export interface ServiceEnvResponse {
+  command: string;
+  cwd: string;
+  env: EnvVariable[];
+  warnings: string[];
+}
+
+export interface ImportServicesResponse {
+  format: 'procfile' | 'compose';
+  /** Definitions converted from the file */
+  services: ServiceConfig[];
+  /** Parts of the file that could not be converted */
+  warnings: string[];
+  /** Ids added to the config file, empty for a dry run */
+  imported: string[];
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+export interface ConfigValidationResponse {
+  /** Name of the config file in use, e.g. services.yaml */
+  file: string;
+  /** No errors; there may still be warnings */
+  valid: boolean;
+  issues: ConfigIssue[];
+}
+
+export interface ServiceMetricsResponse {
+  /** False when the platform has no /proc to sample from */
+  supported: boolean;
+  samples: MetricsSample[];
+}
+
+export interface RunHistoryResponse {
+  runs: RunRecord[];
+}
+
+export interface RunLogsResponse {
+  runId: string;
+  entries: LogEntry[];
+  /** Older entries were left out to honour the limit */
+  truncated: boolean;
+}
+
+export interface AlertsResponse {
+  alerts: ServiceAlert[];
+}
+
 export interface ServiceActionResponse {
   service: ServiceInfo;
   message: string;
 }
+
+export type ServiceAction = 'start' | 'stop' | 'restart';
+
+/**
+ * Outcome of an action on one of several services
+ */
+export interface ServiceActionResult {
+  id: string;
+  success: boolean;
+  service?: ServiceInfo;
+  error?: string;
+}
+
+export interface BulkActionResponse {
+  action: ServiceAction;
+  results: ServiceActionResult[];
+  message: string;
+}
+
+export interface GroupActionResponse {
+  group: string;
+  results: ServiceActionResult[];
+  message: string;
+}
@@ -6,15 +6,18 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Format a duration in milliseconds to a human readable string
+ * Format the time elapsed since a start timestamp to a human readable string
  */
 export function formatUptime(startedAt: string | undefined): string {
     if (!startedAt) return '';
 
-    const start = new Date(startedAt).getTime();
-    const now = Date.now();
-    const diff = now - start;
+    return formatDuration(Date.now() - new Date(startedAt).getTime());
+}
 
+/**
+ * Format a duration in milliseconds to a human readable string
+ */
+export function formatDuration(diff: number): string {
     const seconds = Math.floor(diff / 1000);
     const minutes = Math.floor(seconds / 60);
     const hours = Math.floor(minutes / 60);
@@ -32,6 +35,22 @@ export function formatUptime(startedAt: string | undefined): string {
     return `${seconds}s`;
 }
 
+/**
+ * Format a byte count to a human readable string
+ */
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+
+    return `${value.toFixed(value >= 100 || unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
 /**
  * Get status color for badges
  */
@@ -45,12 +64,44 @@ export function getStatusColor(status: string): string {
             return 'bg-orange-500/20 text-orange-500 border-orange-500/30';
         case 'error':
             return 'bg-red-500/20 text-red-500 border-red-500/30';
+        case 'crash-loop':
+            return 'bg-rose-600/20 text-rose-400 border-rose-600/40';
         case 'stopped':
         default:
             return 'bg-zinc-500/20 text-zinc-400 border-zinc-500/30';
     }
 }
 
+/**
+ * Get health color for badges
+ */
+export function getHealthColor(health: string | undefined): string {
+    switch (health) {
+        case 'healthy':
+            return 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30';
+        case 'unhealthy':
+            return 'bg-red-500/20 text-red-400 border-red-500/30';
+        case 'starting':
+        default:
+            return 'bg-yellow-500/20 text-yellow-500 border-yellow-500/30';
+    }
+}
+
+/**
+ * Get alert severity color classes
+ */
+export function getAlertColor(severity: string | undefined): string {
+    switch (severity) {
+        case 'critical':
+            return 'bg-red-500/20 text-red-400 border-red-500/30';
+        case 'info':
+            return 'bg-sky-500/20 text-sky-400 border-sky-500/30';
+        case 'warning':
+        default:
+            return 'bg-amber-500/20 text-amber-400 border-amber-500/30';
+    }
+}
+
 /**
  * Get status icon name
  */
@@ -62,6 +113,7 @@ export function getStatusIcon(status: string): 'circle' | 'loader' | 'circle-x'
         case 'stopping':
             return 'loader';
         case 'error':
+        case 'crash-loop':
             return 'circle-x';
         default:
             return 'circle-pause';
@@ -0,0 +1,36 @@
+import * as net from 'net';
+
+const PORT_POLL_INTERVAL_MS = 250;
+
+/**
+ * Try a single TCP connection, resolving true if it was accepted
+ */
+export function canConnect(port: number, host: string, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const socket = net.connect({ port, host });
+
+        const finish = (result: boolean) => {
+            socket.destroy();
+            resolve(result);
+        };
+
+        socket.setTimeout(timeoutMs, () => finish(false));
+        socket.once('connect', () => finish(true));
+        socket.once('error', () => finish(false));
+    });
+}
+
+/**
+ * Poll until something accepts TCP connections on host:port
+ */
+export async function waitForPort(port: number, host: string, timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+        if (await canConnect(port, host, Math.min(1000, timeoutMs))) return;
+
+        await new Promise(resolve => setTimeout(resolve, PORT_POLL_INTERVAL_MS));
+    }
+
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for ${host}:${port}`);
+}
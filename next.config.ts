@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native module, loaded at runtime by the service manager
+  serverExternalPackages: ["node-pty"],
 };
 
 export default nextConfig;